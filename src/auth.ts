@@ -1,8 +1,24 @@
-import { authorize, tokenPath } from "./googleClient.js";
+import {
+  authorize,
+  DEFAULT_PROFILE,
+  getTokenPath,
+  promptForCodeOnStdin,
+  validateProfileName
+} from "./googleClient.js";
+
+function getProfileArg(): string {
+  const index = process.argv.indexOf("--profile");
+  const profile = index >= 0 ? process.argv[index + 1] : undefined;
+  return profile ? validateProfileName(profile) : DEFAULT_PROFILE;
+}
 
 async function runAuth(): Promise<void> {
-  await authorize();
-  process.stdout.write(`Authentication complete. Tokens stored at ${tokenPath}.\n`);
+  const profile = getProfileArg();
+  await authorize(profile, {
+    force: true,
+    headless: process.argv.includes("--no-browser") ? { promptForCode: promptForCodeOnStdin } : undefined
+  });
+  process.stdout.write(`Authentication complete. Tokens stored at ${getTokenPath(profile)}.\n`);
 }
 
 runAuth().catch((error) => {
@@ -0,0 +1,84 @@
+export interface BatchOptions {
+  concurrency: number;
+  atomic: boolean;
+}
+
+export interface BatchStepResult<T> {
+  result: T;
+  /** Reverts the step; absent when the step cannot be undone. */
+  undo?: () => Promise<void>;
+  /** Why the step made no change (e.g. it is waiting for confirmation); such a step counts as failed. */
+  notRun?: string;
+}
+
+export type BatchOperationStatus = "succeeded" | "failed" | "skipped" | "rolledBack" | "rollbackFailed";
+
+export interface BatchOperationOutcome<T> {
+  index: number;
+  status: BatchOperationStatus;
+  result?: T;
+  error?: string;
+  rollbackError?: string;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs `count` steps with at most `options.concurrency` in flight, starting them in index order.
+ * In atomic mode no new steps start after a failure, and once in-flight steps settle every succeeded step
+ * is undone in reverse order.
+ */
+export async function runBatch<T>(
+  count: number,
+  options: BatchOptions,
+  execute: (index: number) => Promise<BatchStepResult<T>>
+): Promise<BatchOperationOutcome<T>[]> {
+  const outcomes: BatchOperationOutcome<T>[] = Array.from({ length: count }, (_, index) => ({
+    index,
+    status: "skipped"
+  }));
+  const undos = new Map<number, (() => Promise<void>) | undefined>();
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < count && !(options.atomic && failed)) {
+      const index = next;
+      next += 1;
+      try {
+        const step = await execute(index);
+        if (step.notRun !== undefined) {
+          outcomes[index] = { index, status: "failed", result: step.result, error: step.notRun };
+          failed = true;
+          continue;
+        }
+        outcomes[index] = { index, status: "succeeded", result: step.result };
+        undos.set(index, step.undo);
+      } catch (error) {
+        outcomes[index] = { index, status: "failed", error: describeError(error) };
+        failed = true;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, count) }, worker));
+
+  if (options.atomic && failed) {
+    for (const index of [...undos.keys()].sort((a, b) => b - a)) {
+      const undo = undos.get(index);
+      if (!undo) {
+        outcomes[index] = { ...outcomes[index], status: "rollbackFailed", rollbackError: "Operation cannot be undone" };
+        continue;
+      }
+      try {
+        await undo();
+        outcomes[index] = { ...outcomes[index], status: "rolledBack" };
+      } catch (error) {
+        outcomes[index] = { ...outcomes[index], status: "rollbackFailed", rollbackError: describeError(error) };
+      }
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,128 @@
+import { promises as fs } from "fs";
+import { DateTime, Info } from "luxon";
+
+const DEFAULT_WEEKEND = [6, 7];
+const ICS_DATE_REGEX = /^(\d{4})(\d{2})(\d{2})/;
+
+export interface BusinessCalendar {
+  /** ISO weekday numbers (1 = Monday ... 7 = Sunday) that are not business days. */
+  weekend: Set<number>;
+  /** Non-business dates as YYYY-MM-DD. */
+  holidays: Set<string>;
+}
+
+export function parseWeekendDays(value: string): Set<number> {
+  const names = Info.weekdays("long", { locale: "en" }).map((name) => name.toLowerCase());
+  const days = new Set<number>();
+  for (const raw of value.split(",")) {
+    const entry = raw.trim().toLowerCase();
+    if (!entry) {
+      continue;
+    }
+    const numeric = /^\d$/.test(entry) ? parseInt(entry, 10) : 0;
+    const index = numeric || names.findIndex((name) => entry.length >= 3 && name.startsWith(entry)) + 1;
+    if (index < 1 || index > 7) {
+      throw new Error(`Invalid weekend day "${raw.trim()}". Use weekday names (sat,sun) or ISO numbers (6,7).`);
+    }
+    days.add(index);
+  }
+  return days;
+}
+
+export function getWeekendDays(): Set<number> {
+  const configured = process.env.GOOGLE_CALENDAR_MCP_WEEKEND;
+  return configured !== undefined ? parseWeekendDays(configured) : new Set(DEFAULT_WEEKEND);
+}
+
+export function getHolidayIcsPath(): string | undefined {
+  return process.env.GOOGLE_CALENDAR_MCP_HOLIDAYS_ICS || undefined;
+}
+
+export function getHolidayCalendarId(): string | undefined {
+  return process.env.GOOGLE_CALENDAR_MCP_HOLIDAY_CALENDAR || undefined;
+}
+
+export function createBusinessCalendar(
+  holidays: Iterable<string> = [],
+  weekend: Set<number> = getWeekendDays()
+): BusinessCalendar {
+  return { weekend, holidays: new Set(holidays) };
+}
+
+/** Expands an all-day range (end exclusive, as in ICS and Google Calendar) into individual dates. */
+export function expandDateRange(start: string, end?: string): string[] {
+  const first = DateTime.fromISO(start, { zone: "UTC" });
+  if (!first.isValid) {
+    return [];
+  }
+  const last = end ? DateTime.fromISO(end, { zone: "UTC" }) : first.plus({ days: 1 });
+  const dates: string[] = [];
+  for (let day = first; day < last || dates.length === 0; day = day.plus({ days: 1 })) {
+    dates.push(day.toISODate() as string);
+  }
+  return dates;
+}
+
+function parseIcsDate(value: string | undefined): string | undefined {
+  const match = value?.match(ICS_DATE_REGEX);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+export function parseIcsHolidays(content: string): string[] {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const dates: string[] = [];
+  let event: Map<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = new Map();
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      const start = parseIcsDate(event?.get("DTSTART"));
+      if (start && event?.get("STATUS") !== "CANCELLED") {
+        dates.push(...expandDateRange(start, parseIcsDate(event?.get("DTEND"))));
+      }
+      event = null;
+      continue;
+    }
+    if (!event) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      const name = line.slice(0, separator).split(";")[0].toUpperCase();
+      event.set(name, line.slice(separator + 1).trim());
+    }
+  }
+
+  return dates;
+}
+
+export async function loadIcsHolidays(filePath: string): Promise<string[]> {
+  return parseIcsHolidays(await fs.readFile(filePath, "utf-8"));
+}
+
+export function isBusinessDay(day: DateTime, calendar: BusinessCalendar): boolean {
+  return !calendar.weekend.has(day.weekday) && !calendar.holidays.has(day.toISODate() as string);
+}
+
+/**
+ * Moves `amount` business days away from `day`, skipping weekends and holidays.
+ * An amount of zero returns `day` unchanged.
+ */
+export function addBusinessDays(day: DateTime, amount: number, calendar: BusinessCalendar): DateTime {
+  if (calendar.weekend.size >= 7) {
+    throw new Error("Weekend configuration leaves no business days");
+  }
+  const step = amount < 0 ? -1 : 1;
+  let remaining = Math.abs(amount);
+  let current = day;
+  while (remaining > 0) {
+    current = current.plus({ days: step });
+    if (isBusinessDay(current, calendar)) {
+      remaining -= 1;
+    }
+  }
+  return current;
+}
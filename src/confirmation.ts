@@ -0,0 +1,55 @@
+import { createHash, randomBytes } from "crypto";
+
+const TOKEN_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * off: risky changes run immediately. on: ask through MCP elicitation when the client supports it, otherwise
+ * require a confirm token. token: always require a confirm token.
+ */
+export type ConfirmationPolicy = "off" | "on" | "token";
+
+export function getConfirmationPolicy(): ConfirmationPolicy {
+  const value = process.env.GOOGLE_CALENDAR_MCP_CONFIRM?.trim().toLowerCase();
+  if (value === "1" || value === "true" || value === "yes" || value === "on") {
+    return "on";
+  }
+  return value === "token" ? "token" : "off";
+}
+
+function sortKeys(_key: string, value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function fingerprint(tool: string, args: Record<string, unknown>): string {
+  const rest = { ...args, dryRun: undefined, confirmToken: undefined };
+  return createHash("sha256").update(`${tool}\n${JSON.stringify(rest, sortKeys)}`).digest("hex");
+}
+
+/** One-time tokens that approve a single call with exactly the arguments they were issued for. */
+export class ConfirmationTokens {
+  private readonly pending = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  issue(tool: string, args: Record<string, unknown>): string {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+    const token = randomBytes(16).toString("hex");
+    this.pending.set(token, { fingerprint: fingerprint(tool, args), expiresAt: now + TOKEN_TTL_MS });
+    return token;
+  }
+
+  consume(token: string, tool: string, args: Record<string, unknown>): boolean {
+    const entry = this.pending.get(token);
+    if (!entry || entry.expiresAt <= Date.now() || entry.fingerprint !== fingerprint(tool, args)) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+}
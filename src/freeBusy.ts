@@ -0,0 +1,116 @@
+import { DateTime } from "luxon";
+
+const HOUR_MINUTE_REGEX = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export interface TimeRange {
+  start: DateTime;
+  end: DateTime;
+}
+
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+export interface FreeSlotOptions {
+  timeZone: string;
+  minDurationMinutes: number;
+  workingHours?: WorkingHours;
+  daysOfWeek?: number[];
+}
+
+export function isHourMinute(value: string): boolean {
+  return HOUR_MINUTE_REGEX.test(value);
+}
+
+export function parseHourMinute(value: string): { hour: number; minute: number } {
+  const match = value.match(HOUR_MINUTE_REGEX);
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}. Expected HH:mm.`);
+  }
+  return { hour: parseInt(match[1], 10), minute: parseInt(match[2], 10) };
+}
+
+export function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = ranges
+    .filter((range) => range.end > range.start)
+    .sort((a, b) => a.start.toMillis() - b.start.toMillis());
+
+  const merged: TimeRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      if (range.end > last.end) {
+        last.end = range.end;
+      }
+      continue;
+    }
+    merged.push({ start: range.start, end: range.end });
+  }
+  return merged;
+}
+
+export function subtractRanges(window: TimeRange, busy: TimeRange[]): TimeRange[] {
+  const free: TimeRange[] = [];
+  let cursor = window.start;
+
+  for (const block of mergeRanges(busy)) {
+    if (block.end <= cursor) {
+      continue;
+    }
+    if (block.start >= window.end) {
+      break;
+    }
+    if (block.start > cursor) {
+      free.push({ start: cursor, end: block.start });
+    }
+    cursor = block.end > cursor ? block.end : cursor;
+  }
+
+  if (cursor < window.end) {
+    free.push({ start: cursor, end: window.end });
+  }
+  return free;
+}
+
+export function buildAllowedWindows(range: TimeRange, options: FreeSlotOptions): TimeRange[] {
+  if (!options.workingHours && !options.daysOfWeek) {
+    return [{ start: range.start, end: range.end }];
+  }
+
+  const workStart = options.workingHours ? parseHourMinute(options.workingHours.start) : undefined;
+  const workEnd = options.workingHours ? parseHourMinute(options.workingHours.end) : undefined;
+  const allowedDays = options.daysOfWeek ? new Set(options.daysOfWeek) : undefined;
+
+  const windows: TimeRange[] = [];
+  let day = range.start.setZone(options.timeZone).startOf("day");
+  const lastDay = range.end.setZone(options.timeZone);
+
+  while (day < lastDay) {
+    const nextDay = day.plus({ days: 1 });
+    if (!allowedDays || allowedDays.has(day.weekday)) {
+      const start = workStart ? day.set({ hour: workStart.hour, minute: workStart.minute }) : day;
+      const end = workEnd ? day.set({ hour: workEnd.hour, minute: workEnd.minute }) : nextDay;
+      const clippedStart = start > range.start ? start : range.start;
+      const clippedEnd = end < range.end ? end : range.end;
+      if (clippedEnd > clippedStart) {
+        windows.push({ start: clippedStart, end: clippedEnd });
+      }
+    }
+    day = nextDay;
+  }
+
+  return mergeRanges(windows);
+}
+
+export function computeFreeSlots(range: TimeRange, busy: TimeRange[], options: FreeSlotOptions): TimeRange[] {
+  const slots: TimeRange[] = [];
+  for (const window of buildAllowedWindows(range, options)) {
+    for (const slot of subtractRanges(window, busy)) {
+      if (slot.end.diff(slot.start, "minutes").minutes >= options.minDurationMinutes) {
+        slots.push(slot);
+      }
+    }
+  }
+  return slots;
+}
@@ -1,16 +1,22 @@
 import { authenticate } from "@google-cloud/local-auth";
 import { google, calendar_v3, tasks_v1 } from "googleapis";
-import { OAuth2Client } from "google-auth-library";
+import { CodeChallengeMethod, Credentials, JWT, OAuth2Client } from "google-auth-library";
+import { randomBytes } from "crypto";
 import { promises as fs } from "fs";
+import { createInterface } from "readline/promises";
 import os from "os";
 import path from "path";
 
+import { createTokenStore, TokenStore } from "./tokenStore.js";
+
 const SCOPES = [
   "https://www.googleapis.com/auth/calendar",
   "https://www.googleapis.com/auth/calendar.events",
   "https://www.googleapis.com/auth/tasks"
 ];
 
+const DEFAULT_REDIRECT_URI = "http://localhost";
+
 const DEFAULT_TOKEN_PATH = path.join(
   os.homedir(),
   ".config",
@@ -18,43 +24,153 @@ const DEFAULT_TOKEN_PATH = path.join(
   "token.json"
 );
 
-function getTokenPath(): string {
+export const DEFAULT_PROFILE = "default";
+
+const PROFILE_NAME_REGEX = /^[A-Za-z0-9_-]+$/;
+
+function getDefaultTokenPath(): string {
   return process.env.GOOGLE_CALENDAR_MCP_TOKEN_PATH ?? DEFAULT_TOKEN_PATH;
 }
 
-async function ensureDirectoryExists(filePath: string): Promise<void> {
-  const dir = path.dirname(filePath);
-  await fs.mkdir(dir, { recursive: true });
+export function getProfilesDirectory(): string {
+  return path.join(path.dirname(getDefaultTokenPath()), "profiles");
+}
+
+export function validateProfileName(profile: string): string {
+  if (!PROFILE_NAME_REGEX.test(profile)) {
+    throw new Error(`Invalid profile name "${profile}". Use letters, digits, "-" or "_".`);
+  }
+  return profile;
+}
+
+export function getTokenPath(profile: string = DEFAULT_PROFILE): string {
+  if (profile === DEFAULT_PROFILE) {
+    return getDefaultTokenPath();
+  }
+  return path.join(getProfilesDirectory(), `${validateProfileName(profile)}.json`);
 }
 
-async function loadSavedCredentialsIfExist(): Promise<OAuth2Client | null> {
+async function fileExists(filePath: string): Promise<boolean> {
   try {
-    const tokenPath = getTokenPath();
-    const content = await fs.readFile(tokenPath, "utf-8");
-    const tokens = JSON.parse(content) as {
-      client_id: string;
-      client_secret: string;
-      refresh_token?: string;
-      access_token?: string;
-      expiry_date?: number;
-    };
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function listConfiguredProfiles(): Promise<string[]> {
+  const fromEnv = process.env.GOOGLE_CALENDAR_MCP_PROFILES;
+  if (fromEnv) {
+    return fromEnv
+      .split(",")
+      .map((profile) => profile.trim())
+      .filter(Boolean)
+      .map(validateProfileName);
+  }
+
+  const profiles: string[] = [];
+  if (await fileExists(getDefaultTokenPath())) {
+    profiles.push(DEFAULT_PROFILE);
+  }
 
-    if (!tokens.client_id || !tokens.client_secret) {
-      return null;
+  try {
+    const entries = await fs.readdir(getProfilesDirectory());
+    for (const entry of entries.sort()) {
+      const name = entry.replace(/\.json$/, "");
+      if (entry.endsWith(".json") && PROFILE_NAME_REGEX.test(name) && name !== DEFAULT_PROFILE) {
+        profiles.push(name);
+      }
     }
+  } catch {
+    // No named profiles have been created yet.
+  }
+
+  return profiles;
+}
+
+interface StoredToken {
+  type?: string;
+  client_id: string;
+  client_secret: string;
+  refresh_token?: string | null;
+  access_token?: string | null;
+  expiry_date?: number | null;
+  scope?: string;
+}
+
+let tokenStore: Promise<TokenStore> | undefined;
 
-    const client = new google.auth.OAuth2(
-      tokens.client_id,
-      tokens.client_secret
-    );
-    client.setCredentials(tokens);
-    return client;
-  } catch (error) {
+export function getTokenStore(): Promise<TokenStore> {
+  tokenStore ??= createTokenStore();
+  return tokenStore;
+}
+
+async function readStoredToken(profile: string): Promise<StoredToken | null> {
+  const tokenPath = getTokenPath(profile);
+  const store = await getTokenStore();
+  const content = await store.read(tokenPath);
+  if (content === null) {
     return null;
   }
+
+  try {
+    return JSON.parse(content) as StoredToken;
+  } catch {
+    throw new Error(`Token cache at ${tokenPath} is corrupted. Run "google-calendar-todo-mcp logout" and authenticate again.`);
+  }
+}
+
+async function writeStoredToken(profile: string, token: StoredToken): Promise<void> {
+  const store = await getTokenStore();
+  await store.write(getTokenPath(profile), JSON.stringify(token, null, 2));
 }
 
-async function saveCredentials(client: OAuth2Client): Promise<void> {
+async function updateStoredToken(profile: string, tokens: Credentials): Promise<void> {
+  const stored = await readStoredToken(profile);
+  if (!stored) {
+    return;
+  }
+  await writeStoredToken(profile, {
+    ...stored,
+    access_token: tokens.access_token ?? stored.access_token,
+    expiry_date: tokens.expiry_date ?? stored.expiry_date,
+    refresh_token: tokens.refresh_token ?? stored.refresh_token,
+    scope: tokens.scope ?? stored.scope
+  });
+}
+
+function persistRefreshedTokens(client: OAuth2Client, profile: string): void {
+  client.on("tokens", (tokens: Credentials) => {
+    updateStoredToken(profile, tokens).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`Failed to save refreshed tokens for profile "${profile}": ${message}\n`);
+    });
+  });
+}
+
+async function loadSavedCredentialsIfExist(profile: string): Promise<OAuth2Client | null> {
+  const tokens = await readStoredToken(profile);
+  if (!tokens || !tokens.client_id || !tokens.client_secret) {
+    return null;
+  }
+
+  const client = new google.auth.OAuth2(
+    tokens.client_id,
+    tokens.client_secret
+  );
+  client.setCredentials(tokens);
+  return client;
+}
+
+interface OAuthClientKeys {
+  client_id: string;
+  client_secret: string;
+  redirect_uris?: string[];
+  token_uri?: string;
+}
+
+async function loadClientKeys(): Promise<OAuthClientKeys> {
   const keyfilePath = process.env.GOOGLE_OAUTH_CREDENTIALS;
   if (!keyfilePath) {
     throw new Error("GOOGLE_OAUTH_CREDENTIALS environment variable is required");
@@ -62,50 +178,300 @@ async function saveCredentials(client: OAuth2Client): Promise<void> {
 
   const content = await fs.readFile(keyfilePath, "utf-8");
   const credentials = JSON.parse(content) as {
-    installed?: { client_id: string; client_secret: string };
-    web?: { client_id: string; client_secret: string };
+    installed?: OAuthClientKeys;
+    web?: OAuthClientKeys;
   };
 
   const keys = credentials.installed ?? credentials.web;
   if (!keys || !keys.client_id || !keys.client_secret) {
     throw new Error("Invalid Google OAuth credentials file. Expected installed or web client.");
   }
+  return keys;
+}
 
-  const { client_id, client_secret } = keys;
-  const payload = {
+async function saveCredentials(client: OAuth2Client, profile: string): Promise<void> {
+  const { client_id, client_secret } = await loadClientKeys();
+  await writeStoredToken(profile, {
     type: "authorized_user",
     client_id,
     client_secret,
     refresh_token: client.credentials.refresh_token,
     access_token: client.credentials.access_token,
-    expiry_date: client.credentials.expiry_date
+    expiry_date: client.credentials.expiry_date,
+    scope: client.credentials.scope
+  });
+}
+
+export interface HeadlessAuthOptions {
+  promptForCode: (authUrl: string) => Promise<string>;
+  tokenUrl?: string;
+}
+
+export function extractAuthorizationCode(input: string, expectedState?: string): string {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new Error("No authorization code was provided.");
+  }
+
+  if (!/^https?:\/\//i.test(trimmed)) {
+    return decodeURIComponent(trimmed);
+  }
+
+  const url = new URL(trimmed);
+  const error = url.searchParams.get("error");
+  if (error) {
+    throw new Error(`Authorization was denied: ${error}`);
+  }
+  const state = url.searchParams.get("state");
+  if (expectedState && state !== expectedState) {
+    throw new Error("The redirect URL does not belong to this authorization request (state mismatch).");
+  }
+  const code = url.searchParams.get("code");
+  if (!code) {
+    throw new Error("The redirect URL does not contain an authorization code.");
+  }
+  return code;
+}
+
+export async function promptForCodeOnStdin(authUrl: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    process.stdout.write(`Open the following URL in a browser on any device and approve access:\n\n${authUrl}\n\n`);
+    process.stdout.write(`After approving, the browser is redirected to a page that may fail to load.\n`);
+    return await rl.question("Paste the full redirect URL (or just the code) here: ");
+  } finally {
+    rl.close();
+  }
+}
+
+async function authenticateHeadless(options: HeadlessAuthOptions): Promise<OAuth2Client> {
+  const keys = await loadClientKeys();
+  const tokenUrl = options.tokenUrl ?? keys.token_uri;
+  const client = new google.auth.OAuth2({
+    clientId: keys.client_id,
+    clientSecret: keys.client_secret,
+    redirectUri: keys.redirect_uris?.[0] ?? DEFAULT_REDIRECT_URI,
+    endpoints: tokenUrl ? { oauth2TokenUrl: tokenUrl } : undefined
+  });
+
+  const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+  const state = randomBytes(16).toString("hex");
+  const authUrl = client.generateAuthUrl({
+    access_type: "offline",
+    prompt: "consent",
+    scope: SCOPES,
+    state,
+    code_challenge_method: CodeChallengeMethod.S256,
+    code_challenge: codeChallenge
+  });
+
+  const code = extractAuthorizationCode(await options.promptForCode(authUrl), state);
+  const { tokens } = await client.getToken({ code, codeVerifier });
+  client.setCredentials(tokens);
+  return client;
+}
+
+export interface ServiceAccountConfig {
+  keyFile: string;
+  subject?: string;
+}
+
+export function getServiceAccountConfig(): ServiceAccountConfig | null {
+  const keyFile = process.env.GOOGLE_SERVICE_ACCOUNT_KEY_FILE;
+  if (!keyFile) {
+    return null;
+  }
+  const subject = process.env.GOOGLE_CALENDAR_MCP_IMPERSONATE_USER?.trim();
+  return { keyFile, subject: subject ? subject : undefined };
+}
+
+async function authorizeServiceAccount(config: ServiceAccountConfig): Promise<JWT> {
+  const content = await fs.readFile(config.keyFile, "utf-8");
+  const key = JSON.parse(content) as {
+    type?: string;
+    client_email?: string;
+    private_key?: string;
+    private_key_id?: string;
   };
 
-  const tokenPath = getTokenPath();
-  await ensureDirectoryExists(tokenPath);
-  await fs.writeFile(tokenPath, JSON.stringify(payload, null, 2));
+  if (key.type !== "service_account" || !key.client_email || !key.private_key) {
+    throw new Error("Invalid service account key file. Expected a JSON key with type \"service_account\".");
+  }
+
+  return new JWT({
+    email: key.client_email,
+    key: key.private_key,
+    keyId: key.private_key_id,
+    scopes: SCOPES,
+    subject: config.subject
+  });
 }
 
-export async function authorize(): Promise<OAuth2Client> {
+/**
+ * Returns an authorized client for a profile, from the token cache when possible. `force` skips the cache and runs
+ * the authorization flow again, which replaces a revoked or expired token.
+ */
+export async function authorize(
+  profile: string = DEFAULT_PROFILE,
+  options: { headless?: HeadlessAuthOptions; force?: boolean } = {}
+): Promise<OAuth2Client> {
+  const serviceAccount = getServiceAccountConfig();
+  if (serviceAccount) {
+    if (profile !== DEFAULT_PROFILE) {
+      throw new Error("Named profiles are not supported when GOOGLE_SERVICE_ACCOUNT_KEY_FILE is set.");
+    }
+    return authorizeServiceAccount(serviceAccount);
+  }
+
   const keyfilePath = process.env.GOOGLE_OAUTH_CREDENTIALS;
   if (!keyfilePath) {
     throw new Error("Set GOOGLE_OAUTH_CREDENTIALS to the path of your OAuth client credentials JSON file.");
   }
 
-  const cachedClient = await loadSavedCredentialsIfExist();
+  const cachedClient = options.force ? null : await loadSavedCredentialsIfExist(profile);
   if (cachedClient) {
+    persistRefreshedTokens(cachedClient, profile);
     return cachedClient;
   }
 
-  const client = await authenticate({
-    scopes: SCOPES,
-    keyfilePath
-  });
+  const client = options.headless
+    ? await authenticateHeadless(options.headless)
+    : await authenticate({
+        scopes: SCOPES,
+        keyfilePath
+      });
 
-  await saveCredentials(client);
+  await saveCredentials(client, profile);
+  persistRefreshedTokens(client, profile);
   return client;
 }
 
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+  const candidate = error as { code?: unknown; status?: unknown; response?: { status?: number } };
+  if (typeof candidate.response?.status === "number") {
+    return candidate.response.status;
+  }
+  if (typeof candidate.status === "number") {
+    return candidate.status;
+  }
+  return typeof candidate.code === "number" ? candidate.code : undefined;
+}
+
+export function isInvalidGrantError(error: unknown): boolean {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+  const data = (error as { response?: { data?: { error?: unknown } } }).response?.data;
+  if (data && typeof data === "object" && data.error === "invalid_grant") {
+    return true;
+  }
+  const message = (error as { message?: unknown }).message;
+  return typeof message === "string" && message.includes("invalid_grant");
+}
+
+export interface TokenStatus {
+  profile: string;
+  tokenPath: string;
+  exists: boolean;
+  hasRefreshToken: boolean;
+  expiryDate: string | null;
+  accessTokenExpired: boolean | null;
+  scopes: string[] | null;
+}
+
+export async function getTokenStatus(profile: string = DEFAULT_PROFILE): Promise<TokenStatus> {
+  const tokenPath = getTokenPath(profile);
+  const stored = await readStoredToken(profile);
+  if (!stored) {
+    return {
+      profile,
+      tokenPath,
+      exists: false,
+      hasRefreshToken: false,
+      expiryDate: null,
+      accessTokenExpired: null,
+      scopes: null
+    };
+  }
+
+  const expiry = stored.expiry_date ?? null;
+  const accessTokenExpired = expiry !== null ? expiry <= Date.now() : null;
+  let scopes = stored.scope ? stored.scope.split(" ").filter(Boolean) : null;
+
+  if (!scopes && stored.access_token && accessTokenExpired === false) {
+    try {
+      const info = await new google.auth.OAuth2(stored.client_id, stored.client_secret).getTokenInfo(stored.access_token);
+      scopes = info.scopes;
+    } catch {
+      scopes = null;
+    }
+  }
+
+  return {
+    profile,
+    tokenPath,
+    exists: true,
+    hasRefreshToken: Boolean(stored.refresh_token),
+    expiryDate: expiry !== null ? new Date(expiry).toISOString() : null,
+    accessTokenExpired,
+    scopes
+  };
+}
+
+export interface LogoutResult {
+  tokenPath: string;
+  removed: boolean;
+  revoked: boolean;
+  revokeError?: string;
+}
+
+export async function logout(profile: string = DEFAULT_PROFILE): Promise<LogoutResult> {
+  const tokenPath = getTokenPath(profile);
+  let stored: StoredToken | null = null;
+  try {
+    stored = await readStoredToken(profile);
+  } catch {
+    // A corrupted cache cannot be revoked, but it should still be removed.
+  }
+
+  let revoked = false;
+  let revokeError: string | undefined;
+  const token = stored?.refresh_token ?? stored?.access_token;
+  if (stored && token) {
+    try {
+      await new google.auth.OAuth2(stored.client_id, stored.client_secret).revokeToken(token);
+      revoked = true;
+    } catch (error) {
+      revokeError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const store = await getTokenStore();
+  const removed = await store.remove(tokenPath);
+
+  return { tokenPath, removed, revoked, revokeError };
+}
+
+export async function authorizeProfiles(): Promise<Map<string, OAuth2Client>> {
+  if (getServiceAccountConfig()) {
+    return new Map([[DEFAULT_PROFILE, await authorize(DEFAULT_PROFILE)]]);
+  }
+
+  const profiles = await listConfiguredProfiles();
+  if (profiles.length === 0) {
+    profiles.push(DEFAULT_PROFILE);
+  }
+
+  const clients = new Map<string, OAuth2Client>();
+  for (const profile of profiles) {
+    clients.set(profile, await authorize(profile));
+  }
+  return clients;
+}
+
 export function getCalendarClient(auth: OAuth2Client): calendar_v3.Calendar {
   return google.calendar({ version: "v3", auth });
 }
@@ -114,5 +480,5 @@ export function getTasksClient(auth: OAuth2Client): tasks_v1.Tasks {
   return google.tasks({ version: "v1", auth });
 }
 
-export const tokenPath = getTokenPath();
+export const tokenPath = getDefaultTokenPath();
 export const requiredScopes = [...SCOPES];
@@ -0,0 +1,145 @@
+import { randomUUID, timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+const MCP_PATH = "/mcp";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  version: string;
+  authToken?: string;
+  connect: (transport: StreamableHTTPServerTransport) => Promise<void>;
+}
+
+export function getHttpAuthToken(): string | undefined {
+  const token = process.env.GOOGLE_CALENDAR_MCP_HTTP_TOKEN?.trim();
+  return token ? token : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const header = req.headers.authorization ?? "";
+  const [scheme, provided] = header.split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !provided) {
+    return false;
+  }
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<void> {
+  if (!options.authToken && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error("Set GOOGLE_CALENDAR_MCP_HTTP_TOKEN before binding the HTTP transport to a non-loopback host.");
+  }
+
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? transports.get(sessionId) : undefined;
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendJsonRpcError(res, 404, "Unknown or expired session");
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "No valid session ID provided");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        transports.set(id, transport);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        transports.delete(transport.sessionId);
+      }
+    };
+
+    await options.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    if (url.pathname === HEALTH_PATH && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", version: options.version, sessions: transports.size });
+      return;
+    }
+
+    if (url.pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJsonRpcError(res, 401, "Unauthorized");
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`HTTP transport error: ${message}\n`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, message);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  process.stderr.write(`google-calendar-todo-mcp listening on http://${options.host}:${options.port}${MCP_PATH}\n`);
+}
@@ -3,7 +3,21 @@ import { dirname, join } from "path";
 import { fileURLToPath } from "url";
 
 import { startServer } from "./server.js";
-import { authorize, requiredScopes, tokenPath } from "./googleClient.js";
+import { getCacheDirectory, syncAccounts } from "./syncCache.js";
+import {
+  authorize,
+  DEFAULT_PROFILE,
+  getProfilesDirectory,
+  getServiceAccountConfig,
+  getTokenPath,
+  getTokenStatus,
+  listConfiguredProfiles,
+  logout,
+  promptForCodeOnStdin,
+  requiredScopes,
+  tokenPath,
+  validateProfileName
+} from "./googleClient.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -11,56 +25,243 @@ const packageJsonPath = join(__dirname, "..", "package.json");
 const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8")) as { version?: string };
 const VERSION = packageJson.version ?? "0.0.0";
 
-type Command = "start" | "auth" | "version" | "help";
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
 
-function parseCommand(): Command {
-  const [, , firstArg] = process.argv;
-  if (!firstArg) {
-    return "start";
+type Command = "start" | "auth" | "status" | "logout" | "sync" | "version" | "help";
+
+interface ParsedCommand {
+  command: Command;
+  flags: Map<string, string | true>;
+}
+
+function parseFlags(args: string[]): Map<string, string | true> {
+  const flags = new Map<string, string | true>();
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+    const [name, inlineValue] = arg.slice(2).split("=", 2);
+    if (inlineValue !== undefined) {
+      flags.set(name, inlineValue);
+      continue;
+    }
+    const next = args[index + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      flags.set(name, next);
+      index += 1;
+    } else {
+      flags.set(name, true);
+    }
+  }
+  return flags;
+}
+
+function parseCommand(): ParsedCommand {
+  const args = process.argv.slice(2);
+  const [firstArg] = args;
+  const isFlag = firstArg === undefined || firstArg.startsWith("--");
+  const flags = parseFlags(isFlag ? args : args.slice(1));
+
+  if (isFlag) {
+    if (flags.has("version")) {
+      return { command: "version", flags };
+    }
+    if (flags.has("help")) {
+      return { command: "help", flags };
+    }
+    return { command: "start", flags };
   }
 
   switch (firstArg) {
     case "start":
-      return "start";
+      return { command: "start", flags };
     case "auth":
-      return "auth";
+      return { command: "auth", flags };
+    case "status":
+      return { command: "status", flags };
+    case "logout":
+      return { command: "logout", flags };
+    case "sync":
+      return { command: "sync", flags };
     case "version":
-    case "--version":
     case "-v":
-      return "version";
+      return { command: "version", flags };
     case "help":
-    case "--help":
     case "-h":
-      return "help";
+      return { command: "help", flags };
     default:
-      return "start";
+      return { command: "start", flags };
+  }
+}
+
+function parsePort(value: string | true | undefined): number {
+  if (value === undefined || value === true) {
+    const fromEnv = process.env.GOOGLE_CALENDAR_MCP_HTTP_PORT;
+    return fromEnv ? parsePort(fromEnv) : DEFAULT_HTTP_PORT;
+  }
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port: ${value}`);
   }
+  return port;
 }
 
 function showHelp(): void {
   const scopes = requiredScopes.join("\n    - ");
   process.stdout.write(`google-calendar-todo-mcp v${VERSION}\n\n`);
   process.stdout.write(`Usage:\n`);
-  process.stdout.write(`  google-calendar-todo-mcp [command]\n\n`);
+  process.stdout.write(`  google-calendar-todo-mcp [command] [options]\n\n`);
   process.stdout.write(`Commands:\n`);
   process.stdout.write(`  start     Start the MCP server over stdio (default)\n`);
-  process.stdout.write(`  auth      Run authentication flow and cache tokens\n`);
+  process.stdout.write(`            --http          Serve the Streamable HTTP transport instead of stdio\n`);
+  process.stdout.write(`            --port <port>   HTTP port (default ${DEFAULT_HTTP_PORT})\n`);
+  process.stdout.write(`            --host <host>   HTTP bind address (default ${DEFAULT_HTTP_HOST})\n`);
+  process.stdout.write(`  auth      Run authentication flow and cache tokens (replaces any cached token)\n`);
+  process.stdout.write(`            --profile <name>  Store tokens for a named account profile\n`);
+  process.stdout.write(`            --no-browser      Print the consent URL and paste the code instead of opening a browser\n`);
+  process.stdout.write(`  status    Show cached token state (--profile <name> for one profile)\n`);
+  process.stdout.write(`  logout    Revoke the cached token and delete it (--profile <name>)\n`);
+  process.stdout.write(`  sync      Warm the local event/task cache for all accounts\n`);
+  process.stdout.write(`            --calendar <ids>  Comma-separated calendar IDs (default: all calendars)\n`);
+  process.stdout.write(`            --no-tasks        Skip task lists\n`);
   process.stdout.write(`  version   Show the current version\n`);
   process.stdout.write(`  help      Show this help message\n\n`);
   process.stdout.write(`Environment variables:\n`);
   process.stdout.write(`  GOOGLE_OAUTH_CREDENTIALS   Path to OAuth credentials JSON\n`);
-  process.stdout.write(`  GOOGLE_CALENDAR_MCP_TOKEN_PATH   Custom token cache path (optional)\n\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_TOKEN_PATH   Custom token cache path (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_TOKEN_PASSPHRASE   Encrypt cached tokens with a passphrase (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_TOKEN_KEY_FILE     Encrypt cached tokens with a key file (optional)\n`);
+  process.stdout.write(`  GOOGLE_SERVICE_ACCOUNT_KEY_FILE  Service account key JSON; replaces the OAuth flow (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_IMPERSONATE_USER   User to impersonate via domain-wide delegation (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_PROFILES     Comma-separated profiles to load (default: all authorized profiles)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_DEFAULT_PROFILE   Profile used when a tool call omits "account" (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_CACHE_DIR    Local sync cache directory (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_USE_CACHE    Read list/search tools from the sync cache by default (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_JOURNAL_PATH Change journal file used by undo-change (default: <cache dir>/journal.jsonl)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_CONFIRM      Confirm deletes, sendUpdates "all" and series changes: "on" or "token" (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_WEEKEND      Non-business weekdays, e.g. "sat,sun" (default) or "fri,sat"\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_HOLIDAYS_ICS Local ICS file with holidays for business-day dates (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_HOLIDAY_CALENDAR   Google calendar ID whose all-day events are holidays (optional)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_HTTP_TOKEN   Bearer token required by the HTTP transport (optional on loopback)\n`);
+  process.stdout.write(`  GOOGLE_CALENDAR_MCP_HTTP_PORT    Default HTTP port (optional)\n\n`);
   process.stdout.write(`Required OAuth scopes (requested automatically):\n    - ${scopes}\n`);
   process.stdout.write(`Token cache location: ${tokenPath}\n`);
+  process.stdout.write(`Named profile tokens: ${getProfilesDirectory()}\n`);
+}
+
+function resolveProfile(flags: Map<string, string | true>): string {
+  const profile = flags.get("profile");
+  if (profile === true) {
+    throw new Error("--profile requires a name");
+  }
+  return profile ? validateProfileName(profile) : DEFAULT_PROFILE;
+}
+
+async function showStatus(flags: Map<string, string | true>): Promise<void> {
+  const serviceAccount = getServiceAccountConfig();
+  if (serviceAccount) {
+    process.stdout.write(`Auth mode: service account (${serviceAccount.keyFile})\n`);
+    process.stdout.write(`Impersonated user: ${serviceAccount.subject ?? "(none)"}\n`);
+    return;
+  }
+
+  const profiles = flags.has("profile") ? [resolveProfile(flags)] : await listConfiguredProfiles();
+  if (profiles.length === 0) {
+    process.stdout.write(`No cached tokens found. Run "google-calendar-todo-mcp auth" first.\n`);
+    return;
+  }
+
+  for (const profile of profiles) {
+    const status = await getTokenStatus(profile);
+    process.stdout.write(`Profile: ${status.profile}\n`);
+    process.stdout.write(`  Token path:     ${status.tokenPath}\n`);
+    if (!status.exists) {
+      process.stdout.write(`  Status:         not authenticated\n\n`);
+      continue;
+    }
+    const expiry = status.expiryDate
+      ? `${status.expiryDate}${status.accessTokenExpired ? " (expired)" : ""}`
+      : "unknown";
+    process.stdout.write(`  Refresh token:  ${status.hasRefreshToken ? "present" : "missing"}\n`);
+    process.stdout.write(`  Access expiry:  ${expiry}\n`);
+    process.stdout.write(`  Granted scopes: ${status.scopes ? status.scopes.join(", ") : "unknown"}\n`);
+    const missing = status.scopes ? requiredScopes.filter((scope) => !status.scopes?.includes(scope)) : [];
+    if (missing.length > 0) {
+      process.stdout.write(`  Missing scopes: ${missing.join(", ")}\n`);
+    }
+    process.stdout.write(`\n`);
+  }
+}
+
+async function runSync(flags: Map<string, string | true>): Promise<void> {
+  const calendarFlag = flags.get("calendar");
+  const calendarIds = typeof calendarFlag === "string"
+    ? calendarFlag.split(",").map((id) => id.trim()).filter(Boolean)
+    : undefined;
+
+  const reports = await syncAccounts({ calendarIds, includeTasks: !flags.has("no-tasks") });
+  for (const report of reports) {
+    process.stdout.write(`Account: ${report.account}\n`);
+    for (const result of [...report.calendars, ...report.tasklists]) {
+      const mode = result.stale ? "stale (offline)" : result.fullSync ? "full sync" : "incremental";
+      process.stdout.write(`  ${result.id}: ${result.total} items, ${result.changed} changed, ${mode}\n`);
+    }
+    for (const error of report.errors) {
+      process.stdout.write(`  ${error.id}: failed - ${error.error}\n`);
+    }
+  }
+  process.stdout.write(`Cache directory: ${getCacheDirectory()}\n`);
 }
 
 async function run(): Promise<void> {
-  const command = parseCommand();
+  const { command, flags } = parseCommand();
 
   switch (command) {
     case "auth": {
-      await authorize();
-      process.stdout.write(`OAuth tokens saved to ${tokenPath}.\n`);
+      const serviceAccount = getServiceAccountConfig();
+      if (serviceAccount) {
+        const client = await authorize();
+        await client.getAccessToken();
+        const subject = serviceAccount.subject ? ` impersonating ${serviceAccount.subject}` : "";
+        process.stdout.write(`Service account credentials from ${serviceAccount.keyFile}${subject} are valid. No token cache is needed.\n`);
+        break;
+      }
+
+      const profile = resolveProfile(flags);
+      await authorize(profile, {
+        force: true,
+        headless: flags.has("no-browser") ? { promptForCode: promptForCodeOnStdin } : undefined
+      });
+      process.stdout.write(`OAuth tokens for profile "${profile}" saved to ${getTokenPath(profile)}.\n`);
+      const profiles = await listConfiguredProfiles();
+      process.stdout.write(`Configured profiles: ${profiles.join(", ")}\n`);
+      break;
+    }
+    case "status": {
+      await showStatus(flags);
+      break;
+    }
+    case "logout": {
+      if (getServiceAccountConfig()) {
+        process.stdout.write(`Service account mode does not cache tokens. Nothing to log out.\n`);
+        break;
+      }
+      const profile = resolveProfile(flags);
+      const result = await logout(profile);
+      if (result.revoked) {
+        process.stdout.write(`Revoked Google access for profile "${profile}".\n`);
+      } else if (result.revokeError) {
+        process.stdout.write(`Could not revoke the token with Google: ${result.revokeError}\n`);
+      }
+      process.stdout.write(
+        result.removed ? `Deleted ${result.tokenPath}.\n` : `No cached token at ${result.tokenPath}.\n`
+      );
+      break;
+    }
+    case "sync": {
+      await runSync(flags);
       break;
     }
     case "version": {
@@ -73,7 +274,17 @@ async function run(): Promise<void> {
     }
     case "start":
     default: {
-      await startServer(VERSION);
+      if (flags.has("http")) {
+        const host = flags.get("host");
+        await startServer(VERSION, {
+          http: {
+            host: typeof host === "string" ? host : DEFAULT_HTTP_HOST,
+            port: parsePort(flags.get("port"))
+          }
+        });
+      } else {
+        await startServer(VERSION);
+      }
       break;
     }
   }
@@ -0,0 +1,97 @@
+import type { calendar_v3, tasks_v1 } from "googleapis";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { getCacheDirectory } from "./syncCache.js";
+
+const FILE_MODE = 0o600;
+const JOURNAL_FILE_NAME = "journal.jsonl";
+
+export type JournalAction = "create" | "update" | "delete";
+
+interface JournalResource {
+  account: string;
+  /** Tool that made the change; undo-change records its own changes too. */
+  tool: string;
+  /** The change this entry reverted, for entries written by undo-change. */
+  undoOf?: string;
+}
+
+export interface EventJournalEntry extends JournalResource {
+  kind: "event";
+  calendarId: string;
+  before: calendar_v3.Schema$Event | null;
+  after: calendar_v3.Schema$Event | null;
+}
+
+export interface TaskJournalEntry extends JournalResource {
+  kind: "task";
+  tasklistId: string;
+  before: tasks_v1.Schema$Task | null;
+  after: tasks_v1.Schema$Task | null;
+}
+
+export type JournalChange = EventJournalEntry | TaskJournalEntry;
+
+export type JournalEntry = JournalChange & {
+  id: string;
+  timestamp: string;
+  action: JournalAction;
+  resourceId: string | null;
+};
+
+export function getJournalPath(): string {
+  return process.env.GOOGLE_CALENDAR_MCP_JOURNAL_PATH ?? path.join(getCacheDirectory(), JOURNAL_FILE_NAME);
+}
+
+function describeAction(change: JournalChange): JournalAction {
+  if (!change.before) {
+    return "create";
+  }
+  return change.after ? "update" : "delete";
+}
+
+/** Append-only JSON Lines log of the changes tools made, with the resource state before and after each one. */
+export class MutationJournal {
+  constructor(private readonly filePath: string = getJournalPath()) {}
+
+  async append(change: JournalChange): Promise<JournalEntry> {
+    const entry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      action: describeAction(change),
+      resourceId: change.after?.id ?? change.before?.id ?? null,
+      ...change
+    } as JournalEntry;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, { mode: FILE_MODE });
+    return entry;
+  }
+
+  /** Returns all entries, oldest first. Lines that cannot be parsed are skipped. */
+  async read(): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        // A partially written last line is left behind if the process dies mid-append.
+      }
+    }
+    return entries;
+  }
+}
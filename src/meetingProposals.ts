@@ -0,0 +1,114 @@
+import { DateTime } from "luxon";
+
+import { computeFreeSlots, TimeRange, WorkingHours } from "./freeBusy.js";
+
+const BASE_SCORE = 100;
+const OPTIONAL_BUSY_PENALTY = 15;
+const MORNING_BONUS = 10;
+const AFTERNOON_PENALTY = 5;
+const ON_THE_HOUR_BONUS = 2;
+const PER_DAY_PENALTY = 1;
+
+export interface MeetingSlotOptions {
+  timeZone: string;
+  durationMinutes: number;
+  stepMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  preferMornings: boolean;
+  workingHours?: WorkingHours;
+  daysOfWeek?: number[];
+}
+
+export interface RankedSlot extends TimeRange {
+  score: number;
+  reasons: string[];
+  optionalAttendeesBusy: string[];
+}
+
+function overlaps(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+function alignToStep(value: DateTime, stepMinutes: number): DateTime {
+  const startOfDay = value.startOf("day");
+  const minutes = Math.ceil(value.diff(startOfDay, "minutes").minutes / stepMinutes) * stepMinutes;
+  return startOfDay.plus({ minutes });
+}
+
+export function listMeetingCandidates(range: TimeRange, requiredBusy: TimeRange[], options: MeetingSlotOptions): TimeRange[] {
+  // Widen busy blocks by the buffers so that a slot fitting a free gap leaves room on both sides.
+  const paddedBusy = requiredBusy.map((block) => ({
+    start: block.start.minus({ minutes: options.bufferAfterMinutes }),
+    end: block.end.plus({ minutes: options.bufferBeforeMinutes })
+  }));
+
+  const freeSlots = computeFreeSlots(range, paddedBusy, {
+    timeZone: options.timeZone,
+    minDurationMinutes: options.durationMinutes,
+    workingHours: options.workingHours,
+    daysOfWeek: options.daysOfWeek
+  });
+
+  const candidates: TimeRange[] = [];
+  for (const slot of freeSlots) {
+    let start = alignToStep(slot.start.setZone(options.timeZone), options.stepMinutes);
+    while (start.plus({ minutes: options.durationMinutes }) <= slot.end) {
+      candidates.push({ start, end: start.plus({ minutes: options.durationMinutes }) });
+      start = start.plus({ minutes: options.stepMinutes });
+    }
+  }
+  return candidates;
+}
+
+export function rankMeetingSlots(
+  range: TimeRange,
+  requiredBusy: TimeRange[],
+  optionalBusy: Map<string, TimeRange[]>,
+  options: MeetingSlotOptions,
+  limit: number
+): RankedSlot[] {
+  const firstDay = range.start.setZone(options.timeZone).startOf("day");
+
+  const ranked = listMeetingCandidates(range, requiredBusy, options).map((candidate) => {
+    let score = BASE_SCORE;
+    const reasons: string[] = ["all required attendees are free"];
+
+    const optionalAttendeesBusy = [...optionalBusy.entries()]
+      .filter(([, busy]) => busy.some((block) => overlaps(block, candidate)))
+      .map(([id]) => id);
+    if (optionalAttendeesBusy.length > 0) {
+      score -= optionalAttendeesBusy.length * OPTIONAL_BUSY_PENALTY;
+      reasons.push(`${optionalAttendeesBusy.length} optional attendee(s) busy`);
+    } else if (optionalBusy.size > 0) {
+      reasons.push("all optional attendees are free");
+    }
+
+    if (options.preferMornings) {
+      if (candidate.start.hour < 12) {
+        score += MORNING_BONUS;
+        reasons.push("morning slot preferred");
+      } else {
+        score -= AFTERNOON_PENALTY;
+        reasons.push("afternoon slot");
+      }
+    }
+
+    if (candidate.start.minute === 0) {
+      score += ON_THE_HOUR_BONUS;
+      reasons.push("starts on the hour");
+    }
+
+    const daysOut = Math.floor(candidate.start.startOf("day").diff(firstDay, "days").days);
+    if (daysOut > 0) {
+      score -= daysOut * PER_DAY_PENALTY;
+      reasons.push(`${daysOut} day(s) after the start of the search window`);
+    }
+
+    return { ...candidate, score, reasons, optionalAttendeesBusy };
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.start.toMillis() - b.start.toMillis())
+    .slice(0, limit);
+}
@@ -0,0 +1,47 @@
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function diffFields(current: unknown, body: unknown, replace: boolean, prefix: string): FieldChange[] {
+  const base = isPlainObject(current) ? current : {};
+  const next = isPlainObject(body) ? body : {};
+  const keys = replace ? new Set([...Object.keys(base), ...Object.keys(next)]) : Object.keys(next);
+  const changes: FieldChange[] = [];
+  for (const key of keys) {
+    const after = next[key];
+    if (after === undefined && !replace) {
+      continue;
+    }
+    const field = prefix ? `${prefix}.${key}` : key;
+    const before = base[key];
+    if (isPlainObject(after) && isPlainObject(before)) {
+      changes.push(...diffFields(before, after, replace, field));
+    } else if (!isEqual(before, after)) {
+      changes.push({ field, before: before ?? null, after: after ?? null });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Lists the fields a request body would change on `current`, using patch semantics: only fields present in the
+ * body are compared, nested objects are compared field by field and arrays as a whole.
+ */
+export function diffRequestBody(current: unknown, body: unknown): FieldChange[] {
+  return isPlainObject(body) ? diffFields(current, body, false, "") : [];
+}
+
+/** Like diffRequestBody for a full replacement (update), where fields missing from the body are removed. */
+export function diffReplacement(current: unknown, body: unknown): FieldChange[] {
+  return isPlainObject(body) ? diffFields(current, body, true, "") : [];
+}
@@ -0,0 +1,648 @@
+import { DateTime, Info } from "luxon";
+import { DATE_ONLY_REGEX, formatIso, formatIsoDate, getUserTimeZone } from "./relativeDate.js";
+
+export type RepeatFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RepeatRule {
+  frequency: RepeatFrequency;
+  interval?: number;
+  byWeekday?: string[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  /** Resolved ISO 8601 date or date-time. */
+  until?: string;
+  /** Occurrences to skip (EXDATE), as ISO dates or date-times. */
+  exceptions?: string[];
+  /** Extra occurrences outside the rule (RDATE), as ISO dates or date-times. */
+  additionalDates?: string[];
+}
+
+export interface RecurrenceStart {
+  /** First occurrence, in the event's time zone. */
+  value: DateTime;
+  allDay: boolean;
+}
+
+/** An event start or end, as in calendar_v3.Schema$EventDateTime. */
+export interface EventDateTimeInput {
+  date?: string | null;
+  dateTime?: string | null;
+  timeZone?: string | null;
+}
+
+export interface WeekdayToken {
+  weekday: number;
+  ordinal?: number;
+}
+
+interface ParsedRule {
+  freq: string;
+  interval: number;
+  byDay?: WeekdayToken[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  until?: DateTime;
+  unsupported: string[];
+}
+
+const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const ORDINAL_WORDS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5, last: -1 };
+const ORDINAL_LABELS: Record<string, string> = {
+  "1": "first",
+  "2": "second",
+  "3": "third",
+  "4": "fourth",
+  "5": "fifth",
+  "-1": "last",
+  "-2": "second-to-last"
+};
+const FREQUENCY_UNITS: Record<string, "day" | "week" | "month" | "year"> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year"
+};
+const FREQUENCY_LABELS: Record<string, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly"
+};
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "COUNT", "UNTIL", "WKST"]);
+const ICS_DATE_REGEX = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const MAX_PERIODS = 1000;
+
+const WEEKDAY_NAMES = Info.weekdays("long", { locale: "en" }).map((name) => name.toLowerCase());
+const MONTH_NAMES = Info.months("long", { locale: "en" });
+
+/** Accepts `MO`, `monday`, `mon`, `2TU`, `-1FR`, `last friday` or `second tuesday`. */
+export function parseWeekdayToken(token: string): WeekdayToken | null {
+  const normalized = token.trim().toLowerCase();
+  const match = normalized.match(/^(?:([+-]?\d)|(first|second|third|fourth|fifth|last)\s+)?\s*([a-z]+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, numeric, word, name] = match;
+  const code = WEEKDAY_CODES.indexOf(name.toUpperCase()) + 1;
+  const weekday = code || WEEKDAY_NAMES.findIndex((day) => name.length >= 3 && day.startsWith(name)) + 1;
+  if (weekday < 1) {
+    return null;
+  }
+  const ordinal = numeric !== undefined ? parseInt(numeric, 10) : word ? ORDINAL_WORDS[word] : undefined;
+  if (ordinal === 0) {
+    return null;
+  }
+  return ordinal === undefined ? { weekday } : { weekday, ordinal };
+}
+
+function formatWeekdayToken(token: WeekdayToken): string {
+  return `${token.ordinal ?? ""}${WEEKDAY_CODES[token.weekday - 1]}`;
+}
+
+function formatIcsDate(value: DateTime): string {
+  return value.toFormat("yyyyLLdd");
+}
+
+function formatIcsDateTime(value: DateTime): string {
+  return value.toFormat("yyyyLLdd'T'HHmmss");
+}
+
+function parseRuleDate(value: string, start: RecurrenceStart): DateTime {
+  const parsed = DATE_ONLY_REGEX.test(value)
+    ? DateTime.fromISO(value, { zone: start.value.zone }).set({
+        hour: start.value.hour,
+        minute: start.value.minute,
+        second: start.value.second
+      })
+    : DateTime.fromISO(value, { setZone: true }).setZone(start.value.zone);
+  if (!parsed.isValid) {
+    throw new Error(`Invalid recurrence date: ${value}`);
+  }
+  return parsed;
+}
+
+function formatDateList(name: "EXDATE" | "RDATE", values: string[], start: RecurrenceStart): string {
+  const dates = values.map((value) => parseRuleDate(value, start));
+  if (start.allDay) {
+    return `${name};VALUE=DATE:${dates.map(formatIcsDate).join(",")}`;
+  }
+  if (start.value.zone.type === "iana") {
+    return `${name};TZID=${start.value.zoneName}:${dates.map(formatIcsDateTime).join(",")}`;
+  }
+  return `${name}:${dates.map((date) => `${formatIcsDateTime(date.toUTC())}Z`).join(",")}`;
+}
+
+function formatUntil(value: string, start: RecurrenceStart): string {
+  const parsed = DateTime.fromISO(value, { zone: start.value.zone });
+  if (!parsed.isValid) {
+    throw new Error(`Invalid recurrence end: ${value}`);
+  }
+  if (start.allDay) {
+    return formatIcsDate(parsed);
+  }
+  // RFC 5545 requires UNTIL in UTC when DTSTART has a time zone; a bare date includes that whole day.
+  const until = DATE_ONLY_REGEX.test(value) ? parsed.endOf("day").startOf("second") : parsed;
+  return `${formatIcsDateTime(until.toUTC())}Z`;
+}
+
+/**
+ * Reads an event start as a recurrence start. A dateTime without an offset is local time in the event's timeZone,
+ * not in the host zone.
+ */
+export function toRecurrenceStart(start: EventDateTimeInput | undefined): RecurrenceStart | null {
+  if (start?.date) {
+    return { value: DateTime.fromISO(start.date, { zone: getUserTimeZone() }), allDay: true };
+  }
+  if (!start?.dateTime) {
+    return null;
+  }
+  if (start.timeZone) {
+    const zoned = DateTime.fromISO(start.dateTime, { zone: start.timeZone });
+    if (zoned.isValid) {
+      return { value: zoned, allDay: false };
+    }
+  }
+  const value = DateTime.fromISO(start.dateTime, { setZone: true });
+  return value.isValid ? { value, allDay: false } : null;
+}
+
+/** Compiles a structured repeat rule into RRULE/EXDATE/RDATE lines for `event.recurrence`. */
+export function compileRepeat(rule: RepeatRule, start: RecurrenceStart): string[] {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byWeekday?.length) {
+    const tokens = rule.byWeekday.map((value) => {
+      const token = parseWeekdayToken(value);
+      if (!token) {
+        throw new Error(`Invalid weekday: ${value}`);
+      }
+      return formatWeekdayToken(token);
+    });
+    parts.push(`BYDAY=${tokens.join(",")}`);
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byMonth?.length) {
+    parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${formatUntil(rule.until, start)}`);
+  }
+
+  const lines = [`RRULE:${parts.join(";")}`];
+  if (rule.exceptions?.length) {
+    lines.push(formatDateList("EXDATE", rule.exceptions, start));
+  }
+  if (rule.additionalDates?.length) {
+    lines.push(formatDateList("RDATE", rule.additionalDates, start));
+  }
+  return lines;
+}
+
+function parseIcsDateValue(value: string, zone: string): { value: DateTime; dateOnly: boolean } | null {
+  const match = value.trim().match(ICS_DATE_REGEX);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const units = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0)
+  };
+  const parsed = DateTime.fromObject(units, { zone: utc ? "UTC" : zone });
+  return parsed.isValid ? { value: parsed, dateOnly: hour === undefined } : null;
+}
+
+function splitLine(line: string): { name: string; params: Map<string, string>; value: string } {
+  const separator = line.indexOf(":");
+  const head = separator >= 0 ? line.slice(0, separator) : line;
+  const [name, ...rawParams] = head.split(";");
+  const params = new Map<string, string>();
+  for (const param of rawParams) {
+    const [key, paramValue] = param.split("=");
+    params.set(key.toUpperCase(), paramValue ?? "");
+  }
+  return { name: name.toUpperCase(), params, value: separator >= 0 ? line.slice(separator + 1) : "" };
+}
+
+function parseRule(value: string, zone: string): ParsedRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.split(";")) {
+    const [key, partValue] = part.split("=");
+    if (key && partValue !== undefined) {
+      parts.set(key.toUpperCase(), partValue.toUpperCase());
+    }
+  }
+  const freq = parts.get("FREQ");
+  if (!freq) {
+    return null;
+  }
+
+  const numbers = (key: string) => parts.get(key)?.split(",").map((item) => parseInt(item, 10));
+  const byDay = parts.get("BYDAY")?.split(",").map(parseWeekdayToken);
+  const rule: ParsedRule = {
+    freq,
+    interval: parseInt(parts.get("INTERVAL") ?? "1", 10) || 1,
+    byDay: byDay?.every((token) => token !== null) ? (byDay as WeekdayToken[]) : undefined,
+    byMonthDay: numbers("BYMONTHDAY"),
+    byMonth: numbers("BYMONTH"),
+    count: parts.has("COUNT") ? parseInt(parts.get("COUNT") as string, 10) : undefined,
+    until: parts.has("UNTIL") ? parseIcsDateValue(parts.get("UNTIL") as string, zone)?.value : undefined,
+    unsupported: [...parts.keys()].filter((key) => !SUPPORTED_PARTS.has(key))
+  };
+  if (byDay && !rule.byDay) {
+    rule.unsupported.push("BYDAY");
+  }
+  if (parts.has("WKST") && parts.get("WKST") !== "MO") {
+    rule.unsupported.push("WKST");
+  }
+  return rule;
+}
+
+function joinWords(words: string[]): string {
+  return words.length <= 1 ? words.join("") : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+}
+
+function describeWeekday(token: WeekdayToken): string {
+  const name = Info.weekdays("long", { locale: "en" })[token.weekday - 1];
+  if (token.ordinal === undefined) {
+    return name;
+  }
+  return `the ${ORDINAL_LABELS[String(token.ordinal)] ?? `${token.ordinal}th`} ${name}`;
+}
+
+function describeMonthDay(day: number): string {
+  if (day === -1) {
+    return "the last day";
+  }
+  return day < 0 ? `${-day} days before the end of the month` : `day ${day}`;
+}
+
+function describeDateList(value: string): string {
+  return value
+    .split(",")
+    .map((item) => {
+      const parsed = parseIcsDateValue(item, "UTC");
+      if (!parsed) {
+        return item;
+      }
+      return parsed.dateOnly || !item.endsWith("Z") ? formatIsoDate(parsed.value) : formatIso(parsed.value);
+    })
+    .join(", ");
+}
+
+/** Builds an English summary such as "Every 2 weeks on Monday and Wednesday, 10 times". */
+export function describeRecurrence(lines: string[]): string | null {
+  const ruleLine = lines.map(splitLine).find((line) => line.name === "RRULE");
+  if (!ruleLine) {
+    return null;
+  }
+  const rule = parseRule(ruleLine.value, "UTC");
+  if (!rule) {
+    return null;
+  }
+
+  const unit = FREQUENCY_UNITS[rule.freq] ?? rule.freq.toLowerCase();
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : FREQUENCY_LABELS[rule.freq] ?? `Every ${unit}`;
+  if (rule.byDay?.length) {
+    text += ` on ${joinWords(rule.byDay.map(describeWeekday))}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on ${joinWords(rule.byMonthDay.map(describeMonthDay))}`;
+  }
+  if (rule.byMonth?.length) {
+    text += ` in ${joinWords(rule.byMonth.map((month) => MONTH_NAMES[month - 1] ?? String(month)))}`;
+  }
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  }
+  if (rule.until) {
+    text += `, until ${formatIsoDate(rule.until)}`;
+  }
+  if (rule.unsupported.length > 0) {
+    text += ` (${ruleLine.value})`;
+  }
+
+  for (const line of lines.map(splitLine)) {
+    if (line.name === "EXDATE") {
+      text += `, except ${describeDateList(line.value)}`;
+    } else if (line.name === "RDATE") {
+      text += `, also on ${describeDateList(line.value)}`;
+    }
+  }
+  return text;
+}
+
+function nthWeekdays(monthStart: DateTime, token: WeekdayToken): DateTime[] {
+  const matches: DateTime[] = [];
+  for (let day = monthStart; day.month === monthStart.month; day = day.plus({ days: 1 })) {
+    if (day.weekday === token.weekday) {
+      matches.push(day);
+    }
+  }
+  if (token.ordinal === undefined) {
+    return matches;
+  }
+  const index = token.ordinal > 0 ? token.ordinal - 1 : matches.length + token.ordinal;
+  return matches[index] ? [matches[index]] : [];
+}
+
+function daysInMonthFor(rule: ParsedRule, monthStart: DateTime, start: DateTime): DateTime[] {
+  const daysInMonth = monthStart.daysInMonth ?? 31;
+  let days: DateTime[];
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay
+      .map((day) => (day < 0 ? daysInMonth + 1 + day : day))
+      .filter((day) => day >= 1 && day <= daysInMonth)
+      .map((day) => monthStart.set({ day }));
+    if (rule.byDay?.length) {
+      const weekdays = new Set(rule.byDay.map((token) => token.weekday));
+      days = days.filter((day) => weekdays.has(day.weekday));
+    }
+  } else if (rule.byDay?.length) {
+    days = rule.byDay.flatMap((token) => nthWeekdays(monthStart, token));
+  } else {
+    days = start.day <= daysInMonth ? [monthStart.set({ day: start.day })] : [];
+  }
+  return days;
+}
+
+function candidateDays(rule: ParsedRule, period: DateTime, start: DateTime): DateTime[] {
+  let days: DateTime[];
+  switch (rule.freq) {
+    case "DAILY":
+      days = [period];
+      if (rule.byDay?.length) {
+        const weekdays = new Set(rule.byDay.map((token) => token.weekday));
+        days = days.filter((day) => weekdays.has(day.weekday));
+      }
+      if (rule.byMonthDay?.length) {
+        const daysInMonth = period.daysInMonth ?? 31;
+        const monthDays = new Set(rule.byMonthDay.map((day) => (day < 0 ? daysInMonth + 1 + day : day)));
+        days = days.filter((day) => monthDays.has(day.day));
+      }
+      break;
+    case "WEEKLY": {
+      const weekdays = rule.byDay?.length ? rule.byDay.map((token) => token.weekday) : [start.weekday];
+      days = weekdays.map((weekday) => period.plus({ days: weekday - 1 }));
+      break;
+    }
+    case "MONTHLY":
+      days = daysInMonthFor(rule, period, start);
+      break;
+    default: {
+      const months = rule.byMonth?.length ? rule.byMonth : [start.month];
+      days = months.flatMap((month) => daysInMonthFor(rule, period.set({ month }), start));
+    }
+  }
+  if (rule.byMonth?.length) {
+    const months = new Set(rule.byMonth);
+    days = days.filter((day) => months.has(day.month));
+  }
+  return days.sort((a, b) => a.toMillis() - b.toMillis());
+}
+
+function isExcluded(occurrence: DateTime, exclusions: Array<{ value: DateTime; dateOnly: boolean }>): boolean {
+  return exclusions.some((exclusion) =>
+    exclusion.dateOnly
+      ? formatIsoDate(exclusion.value) === formatIsoDate(occurrence)
+      : exclusion.value.toMillis() === occurrence.toMillis()
+  );
+}
+
+function isExpandable(rule: ParsedRule): boolean {
+  if (rule.unsupported.length > 0 || !FREQUENCY_UNITS[rule.freq]) {
+    return false;
+  }
+  return !(rule.freq === "YEARLY" && rule.byDay?.length && !rule.byMonth?.length);
+}
+
+/** Yields rule-generated occurrences in order, including ones later removed by EXDATE (they still count toward COUNT). */
+function* generateOccurrences(rule: ParsedRule, start: RecurrenceStart, skipTo?: DateTime): Generator<DateTime> {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  const anchor = start.value.startOf(unit);
+  const timeOfDay = { hour: start.value.hour, minute: start.value.minute, second: start.value.second };
+  const until = rule.until && start.allDay ? rule.until.endOf("day") : rule.until;
+
+  let period = 0;
+  if (skipTo && rule.count === undefined) {
+    // Without COUNT, earlier periods cannot affect the result, so skip ahead to the requested window.
+    const elapsed = Math.floor(skipTo.diff(anchor, `${unit}s`).get(`${unit}s`) / rule.interval) - 1;
+    period = Math.max(0, elapsed);
+  }
+
+  let generated = 0;
+  for (let iteration = 0; iteration < MAX_PERIODS; iteration += 1, period += 1) {
+    const periodStart = anchor.plus({ [`${unit}s`]: period * rule.interval });
+    for (const day of candidateDays(rule, periodStart, start.value)) {
+      const occurrence = day.set(timeOfDay);
+      if (occurrence < start.value) {
+        continue;
+      }
+      if (until && occurrence > until) {
+        return;
+      }
+      yield occurrence;
+      generated += 1;
+      if (rule.count !== undefined && generated >= rule.count) {
+        return;
+      }
+    }
+  }
+}
+
+function parseDateLines(lines: ReturnType<typeof splitLine>[], name: string, zone: string) {
+  return lines
+    .filter((line) => line.name === name)
+    .flatMap((line) => line.value.split(",").map((value) => parseIcsDateValue(value, line.params.get("TZID") ?? zone)))
+    .filter((value): value is { value: DateTime; dateOnly: boolean } => value !== null);
+}
+
+/**
+ * Expands RRULE/EXDATE/RDATE lines locally and returns up to `limit` occurrence starts after `after`.
+ * Returns null when the rule uses parts this expander does not implement.
+ */
+export function expandRecurrence(
+  lines: string[],
+  start: RecurrenceStart,
+  options: { after: DateTime; limit: number }
+): string[] | null {
+  const zone = start.value.zoneName ?? "UTC";
+  const parsedLines = lines.map(splitLine);
+  const ruleLine = parsedLines.find((line) => line.name === "RRULE");
+  const rule = ruleLine ? parseRule(ruleLine.value, zone) : null;
+  if (ruleLine && (!rule || !isExpandable(rule))) {
+    return null;
+  }
+
+  const exclusions = parseDateLines(parsedLines, "EXDATE", zone);
+  const timeOfDay = { hour: start.value.hour, minute: start.value.minute, second: start.value.second };
+  // All-day occurrences count as upcoming for the whole day.
+  const after = start.allDay ? options.after.setZone(zone).startOf("day").minus({ milliseconds: 1 }) : options.after;
+
+  const occurrences: DateTime[] = [];
+  if (rule) {
+    for (const occurrence of generateOccurrences(rule, start, after)) {
+      if (occurrence > after && !isExcluded(occurrence, exclusions)) {
+        occurrences.push(occurrence);
+      }
+      if (occurrences.length >= options.limit) {
+        break;
+      }
+    }
+  }
+
+  for (const extra of parseDateLines(parsedLines, "RDATE", zone)) {
+    const occurrence = extra.dateOnly
+      ? extra.value.setZone(start.value.zone, { keepLocalTime: true }).set(timeOfDay)
+      : extra.value;
+    if (occurrence > after) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences
+    .sort((a, b) => a.toMillis() - b.toMillis())
+    .slice(0, options.limit)
+    .map((occurrence) => (start.allDay ? formatIsoDate(occurrence) : formatIso(occurrence)));
+}
+
+function shiftIcsValue(raw: string, zone: string, shiftMs: number): string {
+  const parsed = parseIcsDateValue(raw, zone);
+  if (!parsed || shiftMs === 0) {
+    return raw;
+  }
+  const shifted = parsed.value.plus({ milliseconds: shiftMs });
+  if (parsed.dateOnly) {
+    return formatIcsDate(shifted);
+  }
+  return raw.trim().endsWith("Z") ? `${formatIcsDateTime(shifted.toUTC())}Z` : formatIcsDateTime(shifted);
+}
+
+export interface SplitRecurrence {
+  /** Lines for the original series, ending just before the pivot. */
+  before: string[];
+  /** Lines for the new series starting at the pivot, or an empty array when nothing remains. */
+  after: string[];
+}
+
+/**
+ * Splits a recurrence at `pivot` (an original occurrence start). The original series gets an UNTIL just
+ * before the pivot; the remainder keeps the rule with COUNT reduced by the occurrences already used.
+ * EXDATE/RDATE entries follow their side of the pivot and are moved by `shiftMs` on the new series.
+ * Returns null when COUNT has to be recomputed for a rule this module cannot expand.
+ */
+export function splitRecurrence(
+  lines: string[],
+  start: RecurrenceStart,
+  pivot: DateTime,
+  shiftMs = 0
+): SplitRecurrence | null {
+  return splitLines(lines, start, pivot, shiftMs, true);
+}
+
+/**
+ * Ends a recurrence just before `pivot` (an original occurrence start), for deleting the rest of a series. Unlike
+ * splitRecurrence this never expands the rule, so COUNT rules of any shape can be truncated.
+ */
+export function truncateRecurrence(lines: string[], start: RecurrenceStart, pivot: DateTime): string[] | null {
+  return splitLines(lines, start, pivot, 0, false)?.before ?? null;
+}
+
+function splitLines(
+  lines: string[],
+  start: RecurrenceStart,
+  pivot: DateTime,
+  shiftMs: number,
+  withAfter: boolean
+): SplitRecurrence | null {
+  const zone = start.value.zoneName ?? "UTC";
+  const before: string[] = [];
+  const after: string[] = [];
+  const untilBefore = start.allDay
+    ? formatIcsDate(pivot.minus({ days: 1 }))
+    : `${formatIcsDateTime(pivot.minus({ seconds: 1 }).toUTC())}Z`;
+
+  for (const line of lines) {
+    const parsed = splitLine(line);
+    if (parsed.name === "RRULE") {
+      const rule = parseRule(parsed.value, zone);
+      if (!rule) {
+        return null;
+      }
+      const parts = parsed.value.split(";").filter((part) => !/^(COUNT|UNTIL)=/i.test(part));
+      before.push(`RRULE:${[...parts, `UNTIL=${untilBefore}`].join(";")}`);
+
+      const untilPart = parsed.value.split(";").find((part) => /^UNTIL=/i.test(part));
+      if (!withAfter) {
+        continue;
+      }
+      if (rule.count !== undefined) {
+        if (!isExpandable(rule)) {
+          return null;
+        }
+        let used = 0;
+        for (const occurrence of generateOccurrences(rule, start)) {
+          if (occurrence >= pivot) {
+            break;
+          }
+          used += 1;
+        }
+        if (rule.count > used) {
+          after.push(`RRULE:${[...parts, `COUNT=${rule.count - used}`].join(";")}`);
+        }
+      } else if (untilPart) {
+        const shifted = shiftIcsValue(untilPart.slice("UNTIL=".length), zone, shiftMs);
+        after.push(`RRULE:${[...parts, `UNTIL=${shifted}`].join(";")}`);
+      } else {
+        after.push(`RRULE:${parts.join(";")}`);
+      }
+      continue;
+    }
+
+    if (parsed.name === "EXDATE" || parsed.name === "RDATE") {
+      const head = line.slice(0, line.indexOf(":"));
+      const valueZone = parsed.params.get("TZID") ?? zone;
+      const earlier: string[] = [];
+      const later: string[] = [];
+      for (const raw of parsed.value.split(",")) {
+        const value = parseIcsDateValue(raw, valueZone);
+        const isEarlier = value
+          ? value.dateOnly
+            ? formatIsoDate(value.value) < formatIsoDate(pivot.setZone(valueZone))
+            : value.value < pivot
+          : true;
+        if (isEarlier) {
+          earlier.push(raw);
+        } else {
+          later.push(shiftIcsValue(raw, valueZone, shiftMs));
+        }
+      }
+      if (earlier.length > 0) {
+        before.push(`${head}:${earlier.join(",")}`);
+      }
+      if (later.length > 0) {
+        after.push(`${head}:${later.join(",")}`);
+      }
+      continue;
+    }
+
+    before.push(line);
+    after.push(line);
+  }
+
+  // A new series without an RRULE would only contain its RDATEs, which is not a continuation.
+  return { before, after: after.some((line) => line.startsWith("RRULE:")) ? after : [] };
+}
@@ -0,0 +1,404 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { DateTime, Duration } from "luxon";
+import { addBusinessDays, BusinessCalendar, createBusinessCalendar } from "./businessDays.js";
+
+export const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_PREFIX_REGEX = /^[+-]?\d{4}/;
+
+const RELATIVE_TODAY_REGEX = /^today(?:(\+|\-)(\d+)(d)?)?$/i;
+const RELATIVE_NOW_REGEX = /^now(?:(\+|\-)(\d+)([smhd]))?$/i;
+const RELATIVE_DAY_OFFSET_REGEX = /^(\+|\-)(\d+)(d)?$/i;
+const ISO_DURATION_OFFSET_REGEX = /^(now|today|tomorrow|yesterday)?\s*(\+|\-)\s*(p[0-9ymwdthms.,]+)$/i;
+const RELATIVE_KEYWORDS: Record<string, number> = {
+  today: 0,
+  tomorrow: 1,
+  yesterday: -1
+};
+
+const BUSINESS_DAY_OFFSET_REGEX = /^(?:today\s*)?(\+|\-)\s*(\d+)\s*bd$/;
+const ADJACENT_BUSINESS_DAY_REGEX = /^(next|last|previous) (?:business|working) day$/;
+const IN_BUSINESS_DAYS_REGEX = /^in (\d+) (?:business|working) days?$/;
+const BUSINESS_DAYS_AGO_REGEX = /^(\d+) (?:business|working) days? ago$/;
+const BUSINESS_DAY_HINT_REGEX = /\dbd\b|(?:business|working) days?/i;
+const WEEKDAY_REGEX = /^(?:(next|this|last|coming)\s+)?([a-z]+)$/;
+const PERIOD_BOUNDARY_REGEX = /^(start|beginning|end)\s+of\s+(?:the\s+)?(?:(this|next|last|previous)\s+)?(day|week|month|year)$/;
+const PERIOD_REGEX = /^(this|next|last|previous)\s+(week|month|year)$/;
+const IN_AMOUNT_REGEX = /^in\s+(\d+)\s+([a-z]+)$/;
+const AGO_AMOUNT_REGEX = /^(\d+)\s+([a-z]+)\s+ago$/;
+const TIME_SUFFIX_REGEX = /^(?:(.*?)\s+)?(?:at\s+)?(\d{1,2}(?::\d{2}){0,2}\s*(?:am|pm)|\d{1,2}:\d{2}(?::\d{2})?|noon|midnight)$/;
+
+const WEEKDAYS: Record<string, number> = {
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+  sunday: 7,
+  sun: 7
+};
+
+type DurationUnit = "seconds" | "minutes" | "hours" | "days" | "weeks" | "months" | "years";
+
+const UNIT_ALIASES: Record<string, DurationUnit> = {
+  s: "seconds",
+  sec: "seconds",
+  secs: "seconds",
+  second: "seconds",
+  seconds: "seconds",
+  m: "minutes",
+  min: "minutes",
+  mins: "minutes",
+  minute: "minutes",
+  minutes: "minutes",
+  h: "hours",
+  hr: "hours",
+  hrs: "hours",
+  hour: "hours",
+  hours: "hours",
+  d: "days",
+  day: "days",
+  days: "days",
+  w: "weeks",
+  week: "weeks",
+  weeks: "weeks",
+  month: "months",
+  months: "months",
+  year: "years",
+  years: "years"
+};
+
+const SUB_DAY_UNITS = new Set<DurationUnit>(["seconds", "minutes", "hours"]);
+
+export interface ResolveDateOptions {
+  timeZone?: string;
+  preferDateOnly?: boolean;
+  /** Name of the input field, used in error messages. */
+  field?: string;
+  /** Reference time; defaults to the current time. */
+  now?: DateTime;
+  /** Weekend and holidays for business-day expressions; defaults to the configured weekend only. */
+  businessCalendar?: BusinessCalendar;
+}
+
+export interface ParsedDateExpression {
+  value: DateTime;
+  /** True when the expression names a calendar day rather than an instant. */
+  dateOnly: boolean;
+}
+
+type DayExpression = ParsedDateExpression & { allowsTime: boolean };
+
+export function getUserTimeZone(): string {
+  return process.env.GOOGLE_CALENDAR_MCP_TIMEZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC";
+}
+
+export function resolveTimeZone(preferred?: string): string {
+  return preferred ?? getUserTimeZone();
+}
+
+export function formatIso(dt: DateTime): string {
+  return dt.toISO() ?? dt.toUTC().toISO() ?? dt.toISO() ?? new Date(dt.toJSDate()).toISOString();
+}
+
+export function formatIsoDate(dt: DateTime): string {
+  return dt.toISODate() ?? dt.toFormat("yyyy-LL-dd");
+}
+
+export function formatIsoTime(dt: DateTime): string {
+  return dt.toISOTime({ suppressMilliseconds: true }) ?? dt.toFormat("HH:mm:ss");
+}
+
+function signed(sign: string | undefined, amount: string): number {
+  return parseInt(amount, 10) * (sign === "-" ? -1 : 1);
+}
+
+function parseTimeOfDay(value: string): { hour: number; minute: number; second: number } | null {
+  if (value === "noon") {
+    return { hour: 12, minute: 0, second: 0 };
+  }
+  if (value === "midnight") {
+    return { hour: 0, minute: 0, second: 0 };
+  }
+
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, hourRaw, minuteRaw, secondRaw, meridiem] = match;
+  let hour = parseInt(hourRaw, 10);
+  const minute = minuteRaw ? parseInt(minuteRaw, 10) : 0;
+  const second = secondRaw ? parseInt(secondRaw, 10) : 0;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (!minuteRaw) {
+    return null;
+  }
+
+  if (hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+  return { hour, minute, second };
+}
+
+function parseIsoDurationOffset(match: RegExpMatchArray, now: DateTime, today: DateTime): ParsedDateExpression | null {
+  const [, anchorRaw, sign, durationRaw] = match;
+  const duration = Duration.fromISO(durationRaw.toUpperCase());
+  if (!duration.isValid) {
+    return null;
+  }
+
+  const anchor = (anchorRaw ?? "today").toLowerCase();
+  const base = anchor === "now" ? now : today.plus({ days: RELATIVE_KEYWORDS[anchor] });
+  const shifted = sign === "-" ? base.minus(duration) : base.plus(duration);
+  const hasTimePart = duration.hours !== 0 || duration.minutes !== 0 || duration.seconds !== 0 || duration.milliseconds !== 0;
+  return { value: shifted, dateOnly: anchor !== "now" && !hasTimePart };
+}
+
+function parseWeekday(match: RegExpMatchArray, today: DateTime): DayExpression | null {
+  const [, modifier, name] = match;
+  const weekday = WEEKDAYS[name];
+  if (!weekday) {
+    return null;
+  }
+
+  let value: DateTime;
+  switch (modifier) {
+    case "this":
+      value = today.startOf("week").plus({ days: weekday - 1 });
+      break;
+    case "last": {
+      const diff = (today.weekday - weekday + 7) % 7 || 7;
+      value = today.minus({ days: diff });
+      break;
+    }
+    case "next":
+    case "coming": {
+      const diff = (weekday - today.weekday + 7) % 7 || 7;
+      value = today.plus({ days: diff });
+      break;
+    }
+    default:
+      value = today.plus({ days: (weekday - today.weekday + 7) % 7 });
+  }
+  return { value, dateOnly: true, allowsTime: true };
+}
+
+function periodOffset(modifier: string | undefined): number {
+  if (modifier === "next") {
+    return 1;
+  }
+  if (modifier === "last" || modifier === "previous") {
+    return -1;
+  }
+  return 0;
+}
+
+function parseAmountOffset(amount: string, unitRaw: string, direction: 1 | -1, now: DateTime, today: DateTime): DayExpression | null {
+  const unit = UNIT_ALIASES[unitRaw];
+  if (!unit) {
+    return null;
+  }
+  const delta = { [unit]: parseInt(amount, 10) * direction };
+  if (SUB_DAY_UNITS.has(unit)) {
+    return { value: now.plus(delta), dateOnly: false, allowsTime: false };
+  }
+  return { value: today.plus(delta), dateOnly: true, allowsTime: true };
+}
+
+function parseBusinessDayOffset(expression: string): number | null {
+  const offsetMatch = expression.match(BUSINESS_DAY_OFFSET_REGEX);
+  if (offsetMatch) {
+    return signed(offsetMatch[1], offsetMatch[2]);
+  }
+  const adjacentMatch = expression.match(ADJACENT_BUSINESS_DAY_REGEX);
+  if (adjacentMatch) {
+    return adjacentMatch[1] === "next" ? 1 : -1;
+  }
+  const inMatch = expression.match(IN_BUSINESS_DAYS_REGEX);
+  if (inMatch) {
+    return parseInt(inMatch[1], 10);
+  }
+  const agoMatch = expression.match(BUSINESS_DAYS_AGO_REGEX);
+  if (agoMatch) {
+    return -parseInt(agoMatch[1], 10);
+  }
+  return null;
+}
+
+function parseDayExpression(
+  expression: string,
+  now: DateTime,
+  today: DateTime,
+  calendar?: BusinessCalendar
+): DayExpression | null {
+  if (DATE_ONLY_REGEX.test(expression)) {
+    const value = DateTime.fromISO(expression, { zone: today.zone });
+    return value.isValid ? { value, dateOnly: true, allowsTime: true } : null;
+  }
+
+  const keywordOffset = RELATIVE_KEYWORDS[expression];
+  if (keywordOffset !== undefined) {
+    return { value: today.plus({ days: keywordOffset }), dateOnly: true, allowsTime: true };
+  }
+
+  const todayMatch = expression.match(RELATIVE_TODAY_REGEX);
+  if (todayMatch) {
+    const [, sign, amount] = todayMatch;
+    const delta = amount ? signed(sign, amount) : 0;
+    return { value: today.plus({ days: delta }), dateOnly: true, allowsTime: true };
+  }
+
+  const dayOffsetMatch = expression.match(RELATIVE_DAY_OFFSET_REGEX);
+  if (dayOffsetMatch) {
+    const [, sign, amount] = dayOffsetMatch;
+    return { value: today.plus({ days: signed(sign, amount) }), dateOnly: true, allowsTime: true };
+  }
+
+  const businessDays = parseBusinessDayOffset(expression);
+  if (businessDays !== null) {
+    const value = addBusinessDays(today, businessDays, calendar ?? createBusinessCalendar());
+    return { value, dateOnly: true, allowsTime: true };
+  }
+
+  const nowMatch = expression.match(RELATIVE_NOW_REGEX);
+  if (nowMatch) {
+    const [, sign, amount, unitRaw] = nowMatch;
+    if (!amount || !unitRaw) {
+      return { value: now, dateOnly: false, allowsTime: false };
+    }
+    const unit = UNIT_ALIASES[unitRaw.toLowerCase()];
+    return { value: now.plus({ [unit]: signed(sign, amount) }), dateOnly: false, allowsTime: false };
+  }
+
+  const durationMatch = expression.match(ISO_DURATION_OFFSET_REGEX);
+  if (durationMatch) {
+    const parsed = parseIsoDurationOffset(durationMatch, now, today);
+    return parsed ? { ...parsed, allowsTime: parsed.dateOnly } : null;
+  }
+
+  const boundaryMatch = expression.match(PERIOD_BOUNDARY_REGEX);
+  if (boundaryMatch) {
+    const [, edge, modifier, unit] = boundaryMatch;
+    const period = today.plus({ [`${unit}s`]: periodOffset(modifier) });
+    const unitName = unit as "day" | "week" | "month" | "year";
+    const value = edge === "end" ? period.endOf(unitName) : period.startOf(unitName);
+    return { value, dateOnly: true, allowsTime: true };
+  }
+
+  const periodMatch = expression.match(PERIOD_REGEX);
+  if (periodMatch) {
+    const [, modifier, unit] = periodMatch;
+    const unitName = unit as "week" | "month" | "year";
+    const value = today.plus({ [`${unit}s`]: periodOffset(modifier) }).startOf(unitName);
+    return { value, dateOnly: true, allowsTime: true };
+  }
+
+  const inMatch = expression.match(IN_AMOUNT_REGEX);
+  if (inMatch) {
+    return parseAmountOffset(inMatch[1], inMatch[2], 1, now, today);
+  }
+
+  const agoMatch = expression.match(AGO_AMOUNT_REGEX);
+  if (agoMatch) {
+    return parseAmountOffset(agoMatch[1], agoMatch[2], -1, now, today);
+  }
+
+  const weekdayMatch = expression.match(WEEKDAY_REGEX);
+  if (weekdayMatch) {
+    return parseWeekday(weekdayMatch, today);
+  }
+
+  return null;
+}
+
+/**
+ * Parses relative and natural-language date expressions such as `today+2d`, `now-30m`,
+ * `now+PT90M`, `next monday 15:00`, `friday 9am`, `end of week`, `in 2 weeks`, `today+3bd`
+ * or `next business day`.
+ * Returns null when the expression is not recognized.
+ */
+export function parseDateExpression(
+  value: string,
+  options: { timeZone: string; now?: DateTime; businessCalendar?: BusinessCalendar }
+): ParsedDateExpression | null {
+  const expression = value.trim().toLowerCase().replace(/\s+/g, " ");
+  const now = (options.now ?? DateTime.now()).setZone(options.timeZone);
+  const today = now.startOf("day");
+  const calendar = options.businessCalendar;
+
+  const direct = parseDayExpression(expression, now, today, calendar);
+  if (direct) {
+    return { value: direct.value, dateOnly: direct.dateOnly };
+  }
+
+  const timeMatch = expression.match(TIME_SUFFIX_REGEX);
+  if (!timeMatch) {
+    return null;
+  }
+
+  const [, dayPartRaw, timePart] = timeMatch;
+  const dayPart = dayPartRaw === "at" ? undefined : dayPartRaw;
+  const time = parseTimeOfDay(timePart);
+  if (!time) {
+    return null;
+  }
+
+  const day = dayPart ? parseDayExpression(dayPart, now, today, calendar) : { value: today, dateOnly: true, allowsTime: true };
+  if (!day || !day.allowsTime) {
+    return null;
+  }
+
+  return { value: day.value.startOf("day").set(time), dateOnly: false };
+}
+
+/** True when the value uses business-day arithmetic and therefore needs holiday data. */
+export function usesBusinessDays(value: string | undefined): boolean {
+  return value !== undefined && BUSINESS_DAY_HINT_REGEX.test(value);
+}
+
+export function resolveRelativeDate(value: string | undefined, options: ResolveDateOptions = {}): string | undefined {
+  if (!value) {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  const timeZone = resolveTimeZone(options.timeZone);
+
+  // Pass through if already an ISO 8601 string (date or datetime); bare times fall through to today.
+  const parsedIso = DateTime.fromISO(trimmed, { zone: timeZone });
+  if (parsedIso.isValid && ISO_DATE_PREFIX_REGEX.test(trimmed)) {
+    return trimmed;
+  }
+
+  const parsed = parseDateExpression(trimmed, {
+    timeZone,
+    now: options.now,
+    businessCalendar: options.businessCalendar
+  });
+  if (!parsed) {
+    const field = options.field ?? "date";
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${field}: "${value}" is not an ISO 8601 date/time or a recognized relative expression ` +
+        `(e.g. today+1d, today+3bd, now+2h, now+PT90M, tomorrow 14:30, next monday 15:00, next business day, end of week)`
+    );
+  }
+
+  const preferDateOnly = options.preferDateOnly ?? true;
+  return parsed.dateOnly && preferDateOnly ? formatIsoDate(parsed.value) : formatIso(parsed.value);
+}
@@ -1,22 +1,151 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  McpError,
+  ErrorCode,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
 import type { OAuth2Client } from "google-auth-library";
 import type { calendar_v3, tasks_v1 } from "googleapis";
+import { createHash } from "crypto";
 import { z, ZodError, ZodIssue, ZodObject } from "zod";
 import { DateTime } from "luxon";
 
-import { authorize, getCalendarClient, getTasksClient } from "./googleClient.js";
+import { runBatch } from "./batch.js";
+import {
+  addBusinessDays,
+  BusinessCalendar,
+  createBusinessCalendar,
+  expandDateRange,
+  getHolidayCalendarId,
+  getHolidayIcsPath,
+  loadIcsHolidays
+} from "./businessDays.js";
+import { ConfirmationTokens, getConfirmationPolicy } from "./confirmation.js";
+import { computeFreeSlots, isHourMinute, mergeRanges, TimeRange, WorkingHours } from "./freeBusy.js";
+import {
+  authorizeProfiles,
+  DEFAULT_PROFILE,
+  getCalendarClient,
+  getErrorStatus,
+  getTasksClient,
+  isInvalidGrantError
+} from "./googleClient.js";
+import { getHttpAuthToken, startHttpServer } from "./httpServer.js";
+import { JournalEntry, MutationJournal } from "./journal.js";
+import { rankMeetingSlots } from "./meetingProposals.js";
+import { diffReplacement, diffRequestBody } from "./preview.js";
+import {
+  compileRepeat,
+  describeRecurrence,
+  expandRecurrence,
+  parseWeekdayToken,
+  RecurrenceStart,
+  RepeatRule,
+  splitRecurrence,
+  toRecurrenceStart,
+  truncateRecurrence
+} from "./recurrence.js";
+import {
+  DATE_ONLY_REGEX,
+  formatIso,
+  formatIsoDate,
+  formatIsoTime,
+  getUserTimeZone,
+  resolveRelativeDate,
+  ResolveDateOptions,
+  resolveTimeZone,
+  usesBusinessDays
+} from "./relativeDate.js";
+import {
+  CachedEventQuery,
+  filterCachedEvents,
+  filterCachedTasks,
+  isCacheEnabledByDefault,
+  SyncCache,
+  SyncResult
+} from "./syncCache.js";
+import {
+  EventLink,
+  eventWithoutTaskLink,
+  readEventLink,
+  readTaskLink,
+  TASK_LINK_PROPERTY,
+  TaskLink,
+  taskLinkRemovalPatch,
+  TASKLIST_LINK_PROPERTY,
+  toTaskLinkProperties,
+  withEventLink
+} from "./taskLinks.js";
+import { parseEstimateMinutes, planTaskBlocks } from "./taskScheduling.js";
 
-const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const FREEBUSY_MAX_ITEMS = 50;
+const DEFAULT_RESOURCE_POLL_SECONDS = 60;
+const AGENDA_MAX_RESULTS = 250;
 
-const RELATIVE_TODAY_REGEX = /^today(?:(\+|\-)(\d+)(d)?)?$/i;
-const RELATIVE_NOW_REGEX = /^now(?:(\+|\-)(\d+)([smhd]))?$/i;
-const RELATIVE_DAY_OFFSET_REGEX = /^(\+|\-)(\d+)(d)?$/i;
-const RELATIVE_KEYWORDS: Record<string, number> = {
-  tomorrow: 1,
-  yesterday: -1
-};
+const PROMPT_MAX_EVENTS = 100;
+const PROMPT_MAX_TASKS = 100;
+const MEETING_PREP_LOOKAHEAD_DAYS = 7;
+const MEETING_PREP_HISTORY_DAYS = 180;
+const MEETING_PREP_HISTORY_COUNT = 5;
+const RECURRENCE_PREVIEW_COUNT = 5;
+
+const SERIES_COPY_FIELDS: Array<keyof calendar_v3.Schema$Event> = [
+  "summary",
+  "description",
+  "location",
+  "colorId",
+  "transparency",
+  "visibility",
+  "attendees",
+  "reminders",
+  "extendedProperties",
+  "conferenceData",
+  "guestsCanInviteOthers",
+  "guestsCanModify",
+  "guestsCanSeeOtherGuests",
+  "anyoneCanAddSelf",
+  "attachments",
+  "source"
+];
+
+const BUSINESS_CALENDAR_TTL_MS = 12 * 60 * 60 * 1000;
+const HOLIDAY_LOOKBEHIND_YEARS = 1;
+const HOLIDAY_LOOKAHEAD_YEARS = 2;
+const DEFAULT_WORKING_HOURS: WorkingHours = { start: "09:00", end: "18:00" };
+const TASK_BLOCK_ALIGN_MINUTES = 15;
+const COMPLETED_EVENT_PREFIX = "✓ ";
+const DEFAULT_LINKED_EVENT_MINUTES = 30;
+const JOURNAL_DEFAULT_LIMIT = 20;
+const JOURNAL_MAX_LIMIT = 200;
+const BATCH_MAX_OPERATIONS = 100;
+const BATCH_MAX_CONCURRENCY = 10;
+const BATCH_TOOLS = [
+  "create-event",
+  "update-event",
+  "delete-event",
+  "update-event-instance",
+  "delete-event-instance",
+  "create-task",
+  "update-task",
+  "complete-task",
+  "delete-task"
+] as const;
+
+const CALENDARS_RESOURCE_URI = "calendar://calendars";
+const TASKLISTS_RESOURCE_URI = "tasks://lists";
+const AGENDA_RESOURCE_REGEX = /^calendar:\/\/([^/]+)\/events\/([^/]+)$/;
+const TASKLIST_RESOURCE_REGEX = /^tasks:\/\/([^/]+)$/;
+
+const accountSchema = z.string().optional();
+
+const mutationControlSchema = z.object({
+  dryRun: z.boolean().optional(),
+  confirmToken: z.string().optional()
+});
 
 const propertyFilterRegex = /^[^=]+=[^=]+$/;
 const propertyFilterSchema = z.string().regex(propertyFilterRegex, "Must be in key=value format");
@@ -72,6 +201,47 @@ const conferenceDataSchema = z
   })
   .optional();
 
+const repeatSchema = z
+  .object({
+    frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+    interval: z.number().int().min(1).optional(),
+    byWeekday: z
+      .array(
+        z.string().refine((value) => parseWeekdayToken(value) !== null, {
+          message: "byWeekday entries must look like MO, monday, 2TU, -1FR or \"last friday\""
+        })
+      )
+      .min(1)
+      .optional(),
+    byMonthDay: z
+      .array(z.number().int().min(-31).max(31).refine((day) => day !== 0, { message: "byMonthDay cannot be 0" }))
+      .min(1)
+      .optional(),
+    byMonth: z.array(z.number().int().min(1).max(12)).min(1).optional(),
+    count: z.number().int().min(1).optional(),
+    until: z.string().optional(),
+    exceptions: z.array(z.string()).optional(),
+    additionalDates: z.array(z.string()).optional()
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.count !== undefined && rule.until !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "repeat accepts either count or until, not both" });
+    }
+    if (rule.byMonthDay && rule.frequency === "weekly") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "byMonthDay cannot be used with a weekly repeat" });
+    }
+    const hasOrdinal = rule.byWeekday?.some((value) => parseWeekdayToken(value)?.ordinal !== undefined);
+    if (hasOrdinal && rule.frequency !== "monthly" && rule.frequency !== "yearly") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Ordinal weekdays such as 2TU are only allowed in monthly or yearly repeats"
+      });
+    }
+    if (hasOrdinal && rule.frequency === "yearly" && !rule.byMonth) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Ordinal weekdays in a yearly repeat require byMonth" });
+    }
+  });
+
 const commonEventFieldsSchema = z.object({
   description: z.string().optional(),
   location: z.string().optional(),
@@ -95,97 +265,16 @@ type CommonEventFields = z.infer<typeof commonEventFieldsSchema>;
 type RemindersInput = z.infer<typeof remindersSchema>;
 type AttendeeInput = z.infer<typeof attendeeSchema>;
 type ExtendedPropertiesInput = z.infer<typeof extendedPropertiesSchema>;
-type DurationUnit = "seconds" | "minutes" | "hours" | "days";
-
-function getUserTimeZone(): string {
-  return process.env.GOOGLE_CALENDAR_MCP_TIMEZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC";
-}
-
-function resolveTimeZone(preferred?: string): string {
-  return preferred ?? getUserTimeZone();
-}
-
-function formatIso(dt: DateTime): string {
-  return dt.toISO() ?? dt.toUTC().toISO() ?? dt.toISO() ?? new Date(dt.toJSDate()).toISOString();
-}
-
-function formatIsoDate(dt: DateTime): string {
-  return dt.toISODate() ?? dt.toFormat("yyyy-LL-dd");
-}
-
-function formatIsoTime(dt: DateTime): string {
-  return dt.toISOTime({ suppressMilliseconds: true }) ?? dt.toFormat("HH:mm:ss");
-}
-
-function resolveRelativeDate(
-  value: string | undefined,
-  options: { timeZone?: string; preferDateOnly?: boolean } = {}
-): string | undefined {
-  if (!value) {
-    return value;
-  }
-
-  const trimmed = value.trim();
-  const timeZone = resolveTimeZone(options.timeZone);
-
-  // Pass through if already an ISO 8601 string (date or datetime)
-  const parsedIso = DateTime.fromISO(trimmed, { zone: timeZone });
-  if (parsedIso.isValid) {
-    return trimmed;
-  }
-
-  const keywordOffset = RELATIVE_KEYWORDS[trimmed.toLowerCase()];
-  if (keywordOffset !== undefined) {
-    const dt = DateTime.now().setZone(timeZone).startOf("day").plus({ days: keywordOffset });
-    const preferDateOnly = options.preferDateOnly ?? true;
-    return preferDateOnly ? formatIsoDate(dt) : formatIso(dt);
-  }
-
-  const todayMatch = trimmed.match(RELATIVE_TODAY_REGEX);
-  if (todayMatch) {
-    const [, sign, amount] = todayMatch;
-    const delta = amount ? parseInt(amount, 10) * (sign === "-" ? -1 : 1) : 0;
-    const dt = DateTime.now().setZone(timeZone).startOf("day").plus({ days: delta });
-    const preferDateOnly = options.preferDateOnly ?? true;
-    return preferDateOnly ? formatIsoDate(dt) : formatIso(dt);
-  }
-
-  const nowMatch = trimmed.match(RELATIVE_NOW_REGEX);
-  if (nowMatch) {
-    const [, sign, amount, unitRaw] = nowMatch;
-    const dt = DateTime.now().setZone(timeZone);
-    if (!amount || !unitRaw) {
-      return formatIso(dt);
-    }
-
-    const unit = unitRaw.toLowerCase();
-  const units: Record<string, DurationUnit> = {
-      s: "seconds",
-      m: "minutes",
-      h: "hours",
-      d: "days"
-    };
-    const durationUnit = units[unit];
-    if (!durationUnit) {
-      return formatIso(dt);
-    }
-
-    const delta = parseInt(amount, 10) * (sign === "-" ? -1 : 1);
-    const duration: Partial<Record<DurationUnit, number>> = {};
-    duration[durationUnit] = delta;
-    return formatIso(dt.plus(duration));
-  }
 
-  const dayOffsetMatch = trimmed.match(RELATIVE_DAY_OFFSET_REGEX);
-  if (dayOffsetMatch) {
-    const [, sign, amount] = dayOffsetMatch;
-    const delta = parseInt(amount, 10) * (sign === "-" ? -1 : 1);
-    const dt = DateTime.now().setZone(timeZone).startOf("day").plus({ days: delta });
-    const preferDateOnly = options.preferDateOnly ?? true;
-    return preferDateOnly ? formatIsoDate(dt) : formatIso(dt);
-  }
-
-  return value;
+function describeEventRecurrence(event: calendar_v3.Schema$Event) {
+  const recurrence = event.recurrence ?? [];
+  const start = recurrence.length > 0 ? toRecurrenceStart(event.start ?? undefined) : null;
+  return {
+    recurrenceDescription: describeRecurrence(recurrence),
+    nextOccurrences: start
+      ? expandRecurrence(recurrence, start, { after: DateTime.now(), limit: RECURRENCE_PREVIEW_COUNT })
+      : null
+  };
 }
 
 function mapEvent(event: calendar_v3.Schema$Event) {
@@ -198,6 +287,7 @@ function mapEvent(event: calendar_v3.Schema$Event) {
     start: event.start ?? null,
     end: event.end ?? null,
     recurrence: event.recurrence ?? null,
+    ...describeEventRecurrence(event),
     recurringEventId: event.recurringEventId ?? null,
     originalStartTime: event.originalStartTime ?? null,
     creator: event.creator ?? null,
@@ -212,8 +302,74 @@ function mapEvent(event: calendar_v3.Schema$Event) {
     colorId: event.colorId ?? null,
     reminders: event.reminders ?? null,
     updated: event.updated ?? null,
-    created: event.created ?? null
+    created: event.created ?? null,
+    linkedTask: readTaskLink(event)
+  };
+}
+
+function summarizeLinkedEvent(event: calendar_v3.Schema$Event) {
+  return {
+    summary: event.summary ?? null,
+    status: event.status ?? null,
+    start: event.start ?? null,
+    end: event.end ?? null,
+    htmlLink: event.htmlLink ?? null
+  };
+}
+
+/** An event link read from task notes; event is filled in when links are resolved, and null if the event is gone. */
+type LinkedEventRef = EventLink & { event?: ReturnType<typeof summarizeLinkedEvent> | null };
+
+function mapTask(task: tasks_v1.Schema$Task) {
+  const linkedEvent: LinkedEventRef | null = readEventLink(task.notes);
+  return {
+    id: task.id,
+    title: task.title,
+    notes: task.notes ?? null,
+    status: task.status,
+    due: formatTaskDue(task.due),
+    completed: task.completed ?? null,
+    updated: task.updated,
+    parent: task.parent ?? null,
+    position: task.position ?? null,
+    links: task.links ?? null,
+    webViewLink: task.webViewLink ?? null,
+    linkedEvent
+  };
+}
+
+function mapTasklist(tasklist: tasks_v1.Schema$TaskList) {
+  return {
+    id: tasklist.id,
+    title: tasklist.title,
+    updated: tasklist.updated
+  };
+}
+
+type MappedTask = ReturnType<typeof mapTask>;
+type TaskTreeNode = MappedTask & { subtasks: TaskTreeNode[] };
+
+function byPosition(a: { position?: string | null }, b: { position?: string | null }): number {
+  return (a.position ?? "").localeCompare(b.position ?? "");
+}
+
+/** Nests tasks under their parents, ordered by position. Tasks whose parent is not in the list become roots. */
+function buildTaskTree(tasks: MappedTask[]): TaskTreeNode[] {
+  const nodes = new Map<string, TaskTreeNode>();
+  for (const task of tasks) {
+    nodes.set(task.id ?? "", { ...task, subtasks: [] });
+  }
+  const roots: TaskTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent ? nodes.get(node.parent) : undefined;
+    (parent ? parent.subtasks : roots).push(node);
+  }
+  const sortTree = (list: TaskTreeNode[]) => {
+    list.sort(byPosition);
+    list.forEach((node) => sortTree(node.subtasks));
   };
+  sortTree(roots);
+  return roots;
 }
 
 function mapAttendeesForRequest(attendees?: AttendeeInput[]) {
@@ -291,6 +447,40 @@ function toJsonContent(data: unknown) {
   return [{ type: "text" as const, text: JSON.stringify(data, null, 2) }];
 }
 
+function copySeriesFields(master: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+  const copy: calendar_v3.Schema$Event = {};
+  for (const field of SERIES_COPY_FIELDS) {
+    if (master[field] !== undefined && master[field] !== null) {
+      Object.assign(copy, { [field]: master[field] });
+    }
+  }
+  return copy;
+}
+
+/** The body that restores an event to an earlier state; the sequence number has moved on since the snapshot. */
+function toEventRestoreBody(before: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+  return { ...before, sequence: undefined };
+}
+
+/** The patch that restores a task to an earlier state, bringing it back first if it was deleted. */
+function toTaskRestoreBody(before: tasks_v1.Schema$Task): tasks_v1.Schema$Task {
+  return {
+    title: before.title,
+    notes: before.notes ?? null,
+    due: before.due ?? null,
+    status: before.status,
+    completed: before.completed ?? null,
+    deleted: false
+  };
+}
+
+function toEventDateTime(value: DateTime, allDay: boolean, timeZone?: string | null): calendar_v3.Schema$EventDateTime {
+  if (allDay) {
+    return { date: formatIsoDate(value) };
+  }
+  return timeZone ? { dateTime: formatIso(value), timeZone } : { dateTime: formatIso(value) };
+}
+
 function toGoogleDate(value: string, timeZone?: string) {
   if (DATE_ONLY_REGEX.test(value)) {
     return { date: value };
@@ -298,13 +488,162 @@ function toGoogleDate(value: string, timeZone?: string) {
   return timeZone ? { dateTime: value, timeZone } : { dateTime: value };
 }
 
+function toTaskDue(date: string): string {
+  // Google Tasks stores only the date portion of due, as midnight UTC.
+  return `${date}T00:00:00.000Z`;
+}
+
+/** Returns the calendar date a task is due on; the stored midnight-UTC value must not be shifted into local time. */
+function formatTaskDue(due: string | null | undefined): string | null {
+  if (!due) {
+    return null;
+  }
+  const parsed = DateTime.fromISO(due, { zone: "UTC" });
+  return parsed.isValid ? formatIsoDate(parsed) : due;
+}
+
+function formatRange(range: TimeRange) {
+  return {
+    start: formatIso(range.start),
+    end: formatIso(range.end),
+    durationMinutes: Math.round(range.end.diff(range.start, "minutes").minutes)
+  };
+}
+
+const workingHoursSchema = z
+  .object({
+    start: z.string().refine(isHourMinute, "workingHours.start must be HH:mm"),
+    end: z.string().refine(isHourMinute, "workingHours.end must be HH:mm")
+  })
+  .refine((value) => value.start.padStart(5, "0") < value.end.padStart(5, "0"), {
+    message: "workingHours.end must be after workingHours.start"
+  });
+
+function describeConfirmationReasons(plan: MutationPlan): string[] {
+  const reasons = [...(plan.reasons ?? [])];
+  if (plan.deletes) reasons.push("deletes data");
+  if (plan.sendUpdates === "all") reasons.push("sends updates to all attendees");
+  if (plan.recurring) reasons.push("changes a recurring series");
+  return reasons;
+}
+
+function previewRequests(requests: MutationRequest[]) {
+  return requests.map((request) => ({
+    method: request.method,
+    params: request.params,
+    requestBody: request.requestBody ?? null,
+    current: request.requestBody === undefined ? request.current ?? null : undefined,
+    diff: request.method.endsWith(".update")
+      ? diffReplacement(request.current, request.requestBody)
+      : diffRequestBody(request.current, request.requestBody)
+  }));
+}
+
+function getResourcePollIntervalMs(): number {
+  const seconds = Number(process.env.GOOGLE_CALENDAR_MCP_RESOURCE_POLL_SECONDS ?? DEFAULT_RESOURCE_POLL_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_RESOURCE_POLL_SECONDS) * 1000;
+}
+
+function hashContent(data: unknown): string {
+  return createHash("sha256").update(JSON.stringify(data)).digest("hex");
+}
+
+function toResourceResult(uri: string, data: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) }]
+  };
+}
+
+function splitList(value: string | undefined, fallback: string[]): string[] {
+  const items = value?.split(",").map((item) => item.trim()).filter(Boolean) ?? [];
+  return items.length > 0 ? items : fallback;
+}
+
+function promptMessage(text: string) {
+  return { role: "user" as const, content: { type: "text" as const, text } };
+}
+
+function summarizeSync(sync: SyncResult) {
+  return {
+    lastSyncedAt: sync.lastSyncedAt,
+    stale: sync.stale,
+    fullSync: sync.fullSync,
+    error: sync.error ?? null
+  };
+}
+
+type FreeBusyResult = {
+  busyById: Map<string, TimeRange[]>;
+  errors: Array<{ id: string; reason: string }>;
+};
+
+type GoogleAccount = {
+  authClient: OAuth2Client;
+  calendar: calendar_v3.Calendar;
+  tasks: tasks_v1.Tasks;
+};
+
 type ToolResult = { content: ReturnType<typeof toJsonContent> };
 
+type MutationRequest = {
+  method: string;
+  params: Record<string, unknown>;
+  requestBody?: unknown;
+  /** State of the resource the request changes, diffed against requestBody in previews. */
+  current?: unknown;
+};
+
+/** A mutation a tool is about to make, checked by guardMutation for dry runs and confirmation. */
+type MutationPlan = {
+  tool: string;
+  input: z.infer<typeof mutationControlSchema>;
+  requests: MutationRequest[];
+  deletes?: boolean;
+  sendUpdates?: string | null;
+  recurring?: boolean;
+  /** Reasons found by previewing nested operations, for tools such as batch that make no requests themselves. */
+  reasons?: string[];
+};
+
+type UndoChangeInput = z.infer<typeof mutationControlSchema> & { force?: boolean };
+
+type BatchTool = (typeof BATCH_TOOLS)[number];
+
+/** The fields of batched tool inputs and results that are needed to undo them. */
+type BatchTarget = {
+  account?: string;
+  calendarId?: string;
+  eventId?: string;
+  instanceId?: string;
+  tasklistId?: string;
+  taskId?: string;
+};
+/**
+ * Parses tool arguments and runs the tool. beforeRun sees the parsed input first, which batch uses to snapshot
+ * and preconfirm its operations.
+ */
+type ToolRunner = (args: unknown, beforeRun?: (input: BatchTarget) => Promise<void>) => Promise<ToolResult>;
+type BatchToolOutput = { event?: { id?: string | null }; task?: { id?: string | null } };
+type BatchPreviewOutput = { requests?: unknown[]; confirmationReasons?: string[] };
+/** Builds the undo step of a batched operation from its output. */
+type BatchUndoBuilder = (output: BatchToolOutput) => (() => Promise<void>) | undefined;
+
 export class GoogleCalendarTodoMcpServer {
   private readonly server: McpServer;
-  private authClient?: OAuth2Client;
-  private calendar?: calendar_v3.Calendar;
-  private tasks?: tasks_v1.Tasks;
+  private readonly accounts = new Map<string, GoogleAccount>();
+  private readonly syncCaches = new Map<string, SyncCache>();
+  private readonly resourceSubscriptions = new Map<string, string | null>();
+  private resourcePollTimer?: NodeJS.Timeout;
+  private resourcePollInFlight = false;
+  private readonly businessCalendars = new Map<string, { calendar: BusinessCalendar; expiresAt: number }>();
+  private readonly journal = new MutationJournal();
+  private readonly confirmationTokens = new ConfirmationTokens();
+  /** Tool inputs whose confirmation was already given for the batch they belong to. */
+  private readonly preconfirmedInputs = new WeakSet<object>();
+  /** Results guardMutation returned in place of the mutation, so batch can tell them from applied changes. */
+  private readonly withheldResults = new WeakSet<ToolResult>();
+  private readonly toolRunners = new Map<string, ToolRunner>();
+  private defaultAccount?: string;
 
   constructor(private readonly version: string) {
     this.server = new McpServer({
@@ -313,31 +652,286 @@ export class GoogleCalendarTodoMcpServer {
     });
   }
 
-  async initialize(): Promise<void> {
-    this.authClient = await authorize();
-    this.calendar = getCalendarClient(this.authClient);
-    this.tasks = getTasksClient(this.authClient);
+  async initialize(authClients?: Map<string, OAuth2Client>): Promise<void> {
+    const clients = authClients ?? (await authorizeProfiles());
+    for (const [name, authClient] of clients) {
+      this.accounts.set(name, {
+        authClient,
+        calendar: getCalendarClient(authClient),
+        tasks: getTasksClient(authClient)
+      });
+    }
+
+    const preferredDefault = process.env.GOOGLE_CALENDAR_MCP_DEFAULT_PROFILE ?? DEFAULT_PROFILE;
+    this.defaultAccount = this.accounts.has(preferredDefault) ? preferredDefault : [...this.accounts.keys()][0];
     this.registerCalendarTools();
     this.registerTaskTools();
+    this.registerLinkTools();
+    this.registerBatchTool();
+    this.registerJournalTools();
+    this.registerResources();
+    this.registerPrompts();
   }
 
   async start(): Promise<void> {
-    const transport = new StdioServerTransport();
+    await this.connect(new StdioServerTransport());
+  }
+
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
   }
 
-  private ensureCalendar(): calendar_v3.Calendar {
-    if (!this.calendar) {
-      throw new McpError(ErrorCode.InternalError, "Google Calendar client is not initialized");
+  private resolveAccount(account?: string): GoogleAccount {
+    const name = account ?? this.defaultAccount;
+    const resolved = name ? this.accounts.get(name) : undefined;
+    if (!resolved) {
+      if (account) {
+        const known = [...this.accounts.keys()].join(", ") || "none";
+        throw new McpError(ErrorCode.InvalidParams, `Unknown account "${account}". Configured accounts: ${known}`);
+      }
+      throw new McpError(ErrorCode.InternalError, "No Google account is initialized");
+    }
+    return resolved;
+  }
+
+  private listAccounts(allAccounts: boolean | undefined, account?: string): string[] {
+    if (allAccounts) {
+      return [...this.accounts.keys()];
+    }
+    const name = account ?? this.defaultAccount;
+    this.resolveAccount(name);
+    return [name as string];
+  }
+
+  private describeInvalidGrant(args: unknown): string {
+    const requested = args && typeof args === "object" ? (args as { account?: unknown }).account : undefined;
+    const account = typeof requested === "string" ? requested : this.defaultAccount ?? DEFAULT_PROFILE;
+    const profileFlag = account === DEFAULT_PROFILE ? "" : ` --profile ${account}`;
+    return (
+      `Google authorization for account "${account}" has expired or been revoked (invalid_grant). ` +
+      `Re-run "google-calendar-todo-mcp auth${profileFlag}" and restart the server.`
+    );
+  }
+
+  private ensureCalendar(account?: string): calendar_v3.Calendar {
+    return this.resolveAccount(account).calendar;
+  }
+
+  private ensureTasks(account?: string): tasks_v1.Tasks {
+    return this.resolveAccount(account).tasks;
+  }
+
+  private getSyncCache(account?: string): SyncCache {
+    const name = account ?? this.defaultAccount ?? DEFAULT_PROFILE;
+    let cache = this.syncCaches.get(name);
+    if (!cache) {
+      cache = new SyncCache(name);
+      this.syncCaches.set(name, cache);
+    }
+    return cache;
+  }
+
+  private async readCachedEvents(
+    account: string | undefined,
+    calendarId: string,
+    query: CachedEventQuery
+  ): Promise<{ events: calendar_v3.Schema$Event[]; sync: SyncResult }> {
+    const cache = this.getSyncCache(account);
+    const sync = await cache.syncCalendar(this.ensureCalendar(account), calendarId);
+    const cached = await cache.readEvents(calendarId);
+    return { events: filterCachedEvents(cached?.events ?? [], query), sync };
+  }
+
+  private async getBusinessCalendar(account?: string): Promise<BusinessCalendar> {
+    const name = account ?? this.defaultAccount ?? DEFAULT_PROFILE;
+    const cached = this.businessCalendars.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.calendar;
+    }
+
+    const holidays: string[] = [];
+    const icsPath = getHolidayIcsPath();
+    if (icsPath) {
+      holidays.push(...(await loadIcsHolidays(icsPath)));
+    }
+    const holidayCalendarId = getHolidayCalendarId();
+    if (holidayCalendarId) {
+      holidays.push(...(await this.fetchHolidayDates(holidayCalendarId, account)));
+    }
+
+    const calendar = createBusinessCalendar(holidays);
+    this.businessCalendars.set(name, { calendar, expiresAt: Date.now() + BUSINESS_CALENDAR_TTL_MS });
+    return calendar;
+  }
+
+  private async fetchHolidayDates(calendarId: string, account?: string): Promise<string[]> {
+    const calendar = this.ensureCalendar(account);
+    const today = DateTime.now().setZone(getUserTimeZone()).startOf("day");
+    const dates: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await calendar.events.list({
+        calendarId,
+        timeMin: formatIso(today.minus({ years: HOLIDAY_LOOKBEHIND_YEARS })),
+        timeMax: formatIso(today.plus({ years: HOLIDAY_LOOKAHEAD_YEARS })),
+        singleEvents: true,
+        maxResults: 2500,
+        pageToken
+      });
+      for (const event of response.data.items ?? []) {
+        if (event.status !== "cancelled" && event.start?.date) {
+          dates.push(...expandDateRange(event.start.date, event.end?.date ?? undefined));
+        }
+      }
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+    return dates;
+  }
+
+  private async resolveDate(
+    value: string | undefined,
+    options: ResolveDateOptions,
+    account?: string
+  ): Promise<string | undefined> {
+    if (!usesBusinessDays(value)) {
+      return resolveRelativeDate(value, options);
+    }
+    return resolveRelativeDate(value, { ...options, businessCalendar: await this.getBusinessCalendar(account) });
+  }
+
+  /**
+   * Resolves a task date input to the user's local calendar date and returns it in the midnight-UTC form
+   * Google Tasks stores. `dayOffset` turns an inclusive date into an exclusive upper bound.
+   */
+  private async resolveTaskDate(
+    value: string | undefined,
+    field: string,
+    account?: string,
+    dayOffset = 0
+  ): Promise<string | undefined> {
+    const timeZone = getUserTimeZone();
+    const resolved = await this.resolveDate(value, { timeZone, preferDateOnly: true, field }, account);
+    if (!resolved) {
+      return resolved;
+    }
+    const parsed = DateTime.fromISO(resolved, { zone: timeZone });
+    if (!parsed.isValid) {
+      throw new McpError(ErrorCode.InvalidParams, `${field} must be an ISO 8601 date or relative expression`);
+    }
+    return toTaskDue(formatIsoDate(parsed.setZone(timeZone).plus({ days: dayOffset })));
+  }
+
+  private async parseDateTimeInput(
+    field: string,
+    value: string,
+    timeZone: string,
+    account?: string
+  ): Promise<DateTime> {
+    const resolved = (await this.resolveDate(value, { timeZone, preferDateOnly: false, field }, account)) ?? value;
+    const parsed = DateTime.fromISO(resolved, { zone: timeZone });
+    if (!parsed.isValid) {
+      throw new McpError(ErrorCode.InvalidParams, `${field} must be an ISO 8601 date/time or relative expression`);
+    }
+    return parsed.setZone(timeZone);
+  }
+
+  private async loadSeriesPivot(
+    calendarId: string,
+    instanceId: string,
+    account?: string
+  ): Promise<{ master: calendar_v3.Schema$Event; start: RecurrenceStart; pivot: DateTime }> {
+    const calendar = this.ensureCalendar(account);
+    const instance = (await calendar.events.get({ calendarId, eventId: instanceId })).data;
+    if (!instance.recurringEventId) {
+      throw new McpError(ErrorCode.InvalidParams, `Event ${instanceId} is not an instance of a recurring event`);
+    }
+    const master = (await calendar.events.get({ calendarId, eventId: instance.recurringEventId })).data;
+    const start = toRecurrenceStart(master.start ?? undefined);
+    const pivotStart = toRecurrenceStart(instance.originalStartTime ?? instance.start ?? undefined);
+    if (!master.recurrence?.length || !start || !pivotStart) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Recurring event ${instance.recurringEventId} has no usable recurrence`
+      );
+    }
+    return { master, start, pivot: pivotStart.value.setZone(start.value.zone) };
+  }
+
+  private async compileRepeatInput(
+    repeat: z.infer<typeof repeatSchema>,
+    recurrence: string[] | undefined,
+    eventStart: calendar_v3.Schema$EventDateTime | undefined,
+    account?: string
+  ): Promise<string[]> {
+    if (recurrence !== undefined) {
+      throw new McpError(ErrorCode.InvalidParams, "Provide either recurrence or repeat, not both");
+    }
+    const start = toRecurrenceStart(eventStart);
+    if (!start) {
+      throw new McpError(ErrorCode.InvalidParams, "repeat requires an event with a valid start");
+    }
+
+    const timeZone = start.value.zoneName ?? getUserTimeZone();
+    const resolveAll = async (values: string[] | undefined, field: string) =>
+      values &&
+      Promise.all(
+        values.map(
+          async (value) => (await this.resolveDate(value, { timeZone, preferDateOnly: true, field }, account)) ?? value
+        )
+      );
+    const rule: RepeatRule = {
+      ...repeat,
+      until: await this.resolveDate(repeat.until, { timeZone, preferDateOnly: true, field: "repeat.until" }, account),
+      exceptions: await resolveAll(repeat.exceptions, "repeat.exceptions"),
+      additionalDates: await resolveAll(repeat.additionalDates, "repeat.additionalDates")
+    };
+
+    try {
+      return compileRepeat(rule, start);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
     }
-    return this.calendar;
   }
 
-  private ensureTasks(): tasks_v1.Tasks {
-    if (!this.tasks) {
-      throw new McpError(ErrorCode.InternalError, "Google Tasks client is not initialized");
+  private async queryFreeBusy(
+    ids: string[],
+    range: TimeRange,
+    timeZone: string,
+    account?: string
+  ): Promise<FreeBusyResult> {
+    const calendar = this.ensureCalendar(account);
+    const response = await calendar.freebusy.query({
+      requestBody: {
+        timeMin: range.start.toUTC().toISO() ?? undefined,
+        timeMax: range.end.toUTC().toISO() ?? undefined,
+        timeZone,
+        items: ids.map((id) => ({ id }))
+      }
+    });
+
+    const busyById = new Map<string, TimeRange[]>();
+    const errors: FreeBusyResult["errors"] = [];
+    const calendars = response.data.calendars ?? {};
+
+    for (const id of ids) {
+      const entry = calendars[id];
+      if (!entry) {
+        errors.push({ id, reason: "notFound" });
+        continue;
+      }
+      for (const error of entry.errors ?? []) {
+        errors.push({ id, reason: error.reason ?? "unknown" });
+      }
+      const busy = (entry.busy ?? [])
+        .filter((period) => period.start && period.end)
+        .map((period) => ({
+          start: DateTime.fromISO(period.start as string).setZone(timeZone),
+          end: DateTime.fromISO(period.end as string).setZone(timeZone)
+        }));
+      busyById.set(id, busy);
     }
-    return this.tasks;
+
+    return { busyById, errors };
   }
 
   private registerCalendarTools(): void {
@@ -367,26 +961,38 @@ export class GoogleCalendarTodoMcpServer {
       }
     );
 
+    const listCalendarsInput = z.object({
+      account: accountSchema,
+      allAccounts: z.boolean().optional()
+    });
+
     this.registerTool(
       "list-calendars",
-      "List all calendars available to the authenticated user.",
-      z.object({}),
-      async () => {
-        const calendar = this.ensureCalendar();
-        const response = await calendar.calendarList.list();
-        const calendars = (response.data.items ?? []).map((item: calendar_v3.Schema$CalendarListEntry) => ({
-          id: item.id,
-          summary: item.summary,
-          description: item.description ?? null,
-          timeZone: item.timeZone ?? null,
-          primary: Boolean(item.primary),
-          accessRole: item.accessRole ?? null
-        }));
+      "List all calendars available to the authenticated user. Set allAccounts to include every configured account.",
+      listCalendarsInput,
+      async (input) => {
+        const calendars = [] as Array<Record<string, unknown>>;
+        for (const account of this.listAccounts(input.allAccounts, input.account)) {
+          const calendar = this.ensureCalendar(account);
+          const response = await calendar.calendarList.list();
+          for (const item of response.data.items ?? []) {
+            calendars.push({
+              account,
+              id: item.id,
+              summary: item.summary,
+              description: item.description ?? null,
+              timeZone: item.timeZone ?? null,
+              primary: Boolean(item.primary),
+              accessRole: item.accessRole ?? null
+            });
+          }
+        }
         return { content: toJsonContent({ calendars }) };
       }
     );
 
     const listEventsInput = z.object({
+      account: accountSchema,
       calendarId: z.string().default("primary"),
       timeMin: z.string().optional(),
       timeMax: z.string().optional(),
@@ -399,18 +1005,51 @@ export class GoogleCalendarTodoMcpServer {
       pageToken: z.string().optional(),
       syncToken: z.string().optional(),
       privateExtendedProperty: propertyFilterSchema.array().optional(),
-      sharedExtendedProperty: propertyFilterSchema.array().optional()
+      sharedExtendedProperty: propertyFilterSchema.array().optional(),
+      useCache: z.boolean().optional()
     });
 
     this.registerTool(
       "list-events",
-      "List events from a calendar with optional filtering and pagination.",
+      "List events from a calendar with optional filtering and pagination. Set useCache to read from the local sync cache.",
       listEventsInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
+        const calendar = this.ensureCalendar(input.account);
         const effectiveTimeZone = resolveTimeZone(input.timeZone);
-        const timeMin = resolveRelativeDate(input.timeMin, { timeZone: effectiveTimeZone, preferDateOnly: false });
-        const timeMax = resolveRelativeDate(input.timeMax, { timeZone: effectiveTimeZone, preferDateOnly: false });
+        const timeMin = await this.resolveDate(
+          input.timeMin,
+          { timeZone: effectiveTimeZone, preferDateOnly: false, field: "timeMin" },
+          input.account
+        );
+        const timeMax = await this.resolveDate(
+          input.timeMax,
+          { timeZone: effectiveTimeZone, preferDateOnly: false, field: "timeMax" },
+          input.account
+        );
+
+        const useCache = (input.useCache ?? isCacheEnabledByDefault()) && !input.pageToken && !input.syncToken;
+        if (useCache && input.singleEvents !== false) {
+          const cached = await this.readCachedEvents(input.account, input.calendarId, {
+            timeMin,
+            timeMax,
+            query: input.query,
+            orderBy: input.orderBy,
+            showDeleted: input.showDeleted,
+            maxResults: input.maxResults,
+            timeZone: effectiveTimeZone,
+            privateExtendedProperty: input.privateExtendedProperty,
+            sharedExtendedProperty: input.sharedExtendedProperty
+          });
+          return {
+            content: toJsonContent({
+              events: cached.events.map(mapEvent),
+              nextPageToken: null,
+              nextSyncToken: null,
+              cache: summarizeSync(cached.sync)
+            })
+          };
+        }
+
         const response = await calendar.events.list({
           calendarId: input.calendarId,
           timeMin,
@@ -440,6 +1079,8 @@ export class GoogleCalendarTodoMcpServer {
     );
 
     const searchEventsInput = z.object({
+      account: accountSchema,
+      allAccounts: z.boolean().optional(),
       calendarIds: z.array(z.string()).min(1).default(["primary"]),
       query: z.string().min(1),
       timeMin: z.string().optional(),
@@ -450,44 +1091,81 @@ export class GoogleCalendarTodoMcpServer {
       showDeleted: z.boolean().optional(),
       singleEvents: z.boolean().optional(),
       privateExtendedProperty: propertyFilterSchema.array().optional(),
-      sharedExtendedProperty: propertyFilterSchema.array().optional()
+      sharedExtendedProperty: propertyFilterSchema.array().optional(),
+      useCache: z.boolean().optional()
     });
 
     this.registerTool(
       "search-events",
-      "Search events across one or more calendars with advanced filters.",
+      "Search events across one or more calendars with advanced filters. Set allAccounts to search every configured account.",
       searchEventsInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
         const effectiveTimeZone = resolveTimeZone(input.timeZone);
-        const timeMin = resolveRelativeDate(input.timeMin, { timeZone: effectiveTimeZone, preferDateOnly: false });
-        const timeMax = resolveRelativeDate(input.timeMax, { timeZone: effectiveTimeZone, preferDateOnly: false });
+        const timeMin = await this.resolveDate(
+          input.timeMin,
+          { timeZone: effectiveTimeZone, preferDateOnly: false, field: "timeMin" },
+          input.account
+        );
+        const timeMax = await this.resolveDate(
+          input.timeMax,
+          { timeZone: effectiveTimeZone, preferDateOnly: false, field: "timeMax" },
+          input.account
+        );
+        const useCache = (input.useCache ?? isCacheEnabledByDefault()) && input.singleEvents !== false;
         const results = [] as Array<{
+          account: string;
           calendarId: string;
           events: ReturnType<typeof mapEvent>[];
           nextPageToken: string | null;
+          cache?: ReturnType<typeof summarizeSync>;
         }>;
 
-        for (const calendarId of input.calendarIds) {
-          const response = await calendar.events.list({
-            calendarId,
-            q: input.query,
-            timeMin,
-            timeMax,
-            maxResults: input.maxResultsPerCalendar,
-            timeZone: effectiveTimeZone,
-            orderBy: input.orderBy,
-            showDeleted: input.showDeleted,
-            singleEvents: input.singleEvents,
-            privateExtendedProperty: input.privateExtendedProperty,
-            sharedExtendedProperty: input.sharedExtendedProperty
-          });
+        for (const account of this.listAccounts(input.allAccounts, input.account)) {
+          const calendar = this.ensureCalendar(account);
+          for (const calendarId of input.calendarIds) {
+            if (useCache) {
+              const cached = await this.readCachedEvents(account, calendarId, {
+                timeMin,
+                timeMax,
+                query: input.query,
+                orderBy: input.orderBy,
+                showDeleted: input.showDeleted,
+                maxResults: input.maxResultsPerCalendar,
+                timeZone: effectiveTimeZone,
+                privateExtendedProperty: input.privateExtendedProperty,
+                sharedExtendedProperty: input.sharedExtendedProperty
+              });
+              results.push({
+                account,
+                calendarId,
+                events: cached.events.map(mapEvent),
+                nextPageToken: null,
+                cache: summarizeSync(cached.sync)
+              });
+              continue;
+            }
 
-          results.push({
-            calendarId,
-            events: (response.data.items ?? []).map(mapEvent),
-            nextPageToken: response.data.nextPageToken ?? null
-          });
+            const response = await calendar.events.list({
+              calendarId,
+              q: input.query,
+              timeMin,
+              timeMax,
+              maxResults: input.maxResultsPerCalendar,
+              timeZone: effectiveTimeZone,
+              orderBy: input.orderBy,
+              showDeleted: input.showDeleted,
+              singleEvents: input.singleEvents,
+              privateExtendedProperty: input.privateExtendedProperty,
+              sharedExtendedProperty: input.sharedExtendedProperty
+            });
+
+            results.push({
+              account,
+              calendarId,
+              events: (response.data.items ?? []).map(mapEvent),
+              nextPageToken: response.data.nextPageToken ?? null
+            });
+          }
         }
 
         const totalEvents = results.reduce((sum, entry) => sum + entry.events.length, 0);
@@ -502,55 +1180,265 @@ export class GoogleCalendarTodoMcpServer {
       }
     );
 
-    const createEventInput = z
-      .object({
-        calendarId: z.string().default("primary"),
-        summary: z.string(),
-        start: z.string(),
-        end: z.string(),
-        timeZone: z.string().optional(),
-        eventId: z.string().optional(),
-        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
-      })
-      .merge(commonEventFieldsSchema);
+    const findFreeSlotsInput = z.object({
+      account: accountSchema,
+      calendarIds: z.array(z.string()).optional(),
+      attendees: z.array(z.string().email()).optional(),
+      timeMin: z.string(),
+      timeMax: z.string(),
+      minDurationMinutes: z.number().int().min(1).default(30),
+      workingHours: workingHoursSchema.optional(),
+      daysOfWeek: z.array(z.number().int().min(1).max(7)).min(1).optional(),
+      timeZone: z.string().optional()
+    });
 
     this.registerTool(
-      "create-event",
-      "Create a new calendar event, including support for recurrence and advanced options.",
-      createEventInput,
+      "find-free-slots",
+      "Find free time slots across calendars and attendees using free/busy data. daysOfWeek uses 1=Monday … 7=Sunday.",
+      findFreeSlotsInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
         const effectiveTimeZone = resolveTimeZone(input.timeZone);
-        const resolvedStart = resolveRelativeDate(input.start, {
-          timeZone: effectiveTimeZone,
-          preferDateOnly: true
-        }) ?? input.start;
-        const resolvedEnd = resolveRelativeDate(input.end, {
-          timeZone: effectiveTimeZone,
-          preferDateOnly: true
-        }) ?? input.end;
-
-        const requestBody: calendar_v3.Schema$Event = {
-          summary: input.summary,
-          start: toGoogleDate(resolvedStart, effectiveTimeZone),
-          end: toGoogleDate(resolvedEnd, effectiveTimeZone)
+        const range = {
+          start: await this.parseDateTimeInput("timeMin", input.timeMin, effectiveTimeZone, input.account),
+          end: await this.parseDateTimeInput("timeMax", input.timeMax, effectiveTimeZone, input.account)
         };
+        if (range.end <= range.start) {
+          throw new McpError(ErrorCode.InvalidParams, "timeMax must be after timeMin");
+        }
 
-        if (input.description !== undefined) requestBody.description = input.description;
-        if (input.location !== undefined) requestBody.location = input.location;
-        if (input.eventId) requestBody.id = input.eventId;
-
-        applyCommonEventFields(requestBody, input);
+        const ids = [...new Set([...(input.calendarIds ?? []), ...(input.attendees ?? [])])];
+        if (ids.length === 0) {
+          ids.push("primary");
+        }
+        if (ids.length > FREEBUSY_MAX_ITEMS) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `At most ${FREEBUSY_MAX_ITEMS} calendars and attendees can be queried at once`
+          );
+        }
 
-        const hasAttachments = Array.isArray(input.attachments) && input.attachments.length > 0;
+        const { busyById, errors } = await this.queryFreeBusy(ids, range, effectiveTimeZone, input.account);
+        const busy = mergeRanges([...busyById.values()].flat());
+        const freeSlots = computeFreeSlots(range, busy, {
+          timeZone: effectiveTimeZone,
+          minDurationMinutes: input.minDurationMinutes,
+          workingHours: input.workingHours,
+          daysOfWeek: input.daysOfWeek
+        });
+
+        return {
+          content: toJsonContent({
+            timeZone: effectiveTimeZone,
+            timeMin: formatIso(range.start),
+            timeMax: formatIso(range.end),
+            busy: busy.map(formatRange),
+            freeSlots: freeSlots.map(formatRange),
+            errors
+          })
+        };
+      }
+    );
+
+    const proposeMeetingTimesInput = z.object({
+      account: accountSchema,
+      attendees: attendeeSchema.array().min(1),
+      calendarIds: z.array(z.string()).default(["primary"]),
+      durationMinutes: z.number().int().min(5).max(24 * 60),
+      timeMin: z.string(),
+      timeMax: z.string(),
+      timeZone: z.string().optional(),
+      earliestHour: z.number().int().min(0).max(23).optional(),
+      latestHour: z.number().int().min(1).max(23).optional(),
+      daysOfWeek: z.array(z.number().int().min(1).max(7)).min(1).optional(),
+      bufferBeforeMinutes: z.number().int().min(0).default(0),
+      bufferAfterMinutes: z.number().int().min(0).default(0),
+      preferMornings: z.boolean().default(false),
+      stepMinutes: z.number().int().min(5).max(240).default(30),
+      maxResults: z.number().int().min(1).max(50).default(5),
+      eventDraft: z
+        .object({
+          summary: z.string(),
+          description: z.string().optional(),
+          location: z.string().optional(),
+          calendarId: z.string().default("primary"),
+          sendUpdates: z.enum(["all", "externalOnly", "none"]).default("all")
+        })
+        .optional()
+    });
+
+    this.registerTool(
+      "propose-meeting-times",
+      "Rank candidate meeting times for a group of attendees. Provide eventDraft to get ready-to-use create-event arguments for each proposal.",
+      proposeMeetingTimesInput,
+      async (input) => {
+        const effectiveTimeZone = resolveTimeZone(input.timeZone);
+        const range = {
+          start: await this.parseDateTimeInput("timeMin", input.timeMin, effectiveTimeZone, input.account),
+          end: await this.parseDateTimeInput("timeMax", input.timeMax, effectiveTimeZone, input.account)
+        };
+        if (range.end <= range.start) {
+          throw new McpError(ErrorCode.InvalidParams, "timeMax must be after timeMin");
+        }
+        if (input.earliestHour !== undefined && input.latestHour !== undefined && input.latestHour <= input.earliestHour) {
+          throw new McpError(ErrorCode.InvalidParams, "latestHour must be after earliestHour");
+        }
+
+        const requiredIds = [
+          ...new Set([
+            ...input.calendarIds,
+            ...input.attendees.filter((attendee) => !attendee.optional).map((attendee) => attendee.email)
+          ])
+        ];
+        const optionalIds = [
+          ...new Set(input.attendees.filter((attendee) => attendee.optional).map((attendee) => attendee.email))
+        ].filter((id) => !requiredIds.includes(id));
+        const ids = [...requiredIds, ...optionalIds];
+        if (ids.length > FREEBUSY_MAX_ITEMS) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `At most ${FREEBUSY_MAX_ITEMS} calendars and attendees can be queried at once`
+          );
+        }
+
+        const { busyById, errors } = await this.queryFreeBusy(ids, range, effectiveTimeZone, input.account);
+        const requiredBusy = mergeRanges(requiredIds.flatMap((id) => busyById.get(id) ?? []));
+        const optionalBusy = new Map(optionalIds.map((id) => [id, busyById.get(id) ?? []] as const));
+
+        const hasHourBounds = input.earliestHour !== undefined || input.latestHour !== undefined;
+        const workingHours = hasHourBounds
+          ? {
+              start: `${String(input.earliestHour ?? 0).padStart(2, "0")}:00`,
+              end: input.latestHour !== undefined ? `${String(input.latestHour).padStart(2, "0")}:00` : "23:59"
+            }
+          : undefined;
+
+        const ranked = rankMeetingSlots(
+          range,
+          requiredBusy,
+          optionalBusy,
+          {
+            timeZone: effectiveTimeZone,
+            durationMinutes: input.durationMinutes,
+            stepMinutes: input.stepMinutes,
+            bufferBeforeMinutes: input.bufferBeforeMinutes,
+            bufferAfterMinutes: input.bufferAfterMinutes,
+            preferMornings: input.preferMornings,
+            workingHours,
+            daysOfWeek: input.daysOfWeek
+          },
+          input.maxResults
+        );
+
+        const proposals = ranked.map((slot, index) => {
+          const proposal: Record<string, unknown> = {
+            rank: index + 1,
+            ...formatRange(slot),
+            score: slot.score,
+            reasons: slot.reasons,
+            optionalAttendeesBusy: slot.optionalAttendeesBusy
+          };
+          if (input.eventDraft) {
+            proposal.createEventRequest = {
+              calendarId: input.eventDraft.calendarId,
+              summary: input.eventDraft.summary,
+              description: input.eventDraft.description,
+              location: input.eventDraft.location,
+              start: formatIso(slot.start),
+              end: formatIso(slot.end),
+              timeZone: effectiveTimeZone,
+              attendees: mapAttendeesForRequest(input.attendees),
+              sendUpdates: input.eventDraft.sendUpdates
+            };
+          }
+          return proposal;
+        });
+
+        return {
+          content: toJsonContent({
+            timeZone: effectiveTimeZone,
+            requiredAttendees: requiredIds,
+            optionalAttendees: optionalIds,
+            proposals,
+            errors
+          })
+        };
+      }
+    );
+
+    const createEventInput = z
+      .object({
+        account: accountSchema,
+        calendarId: z.string().default("primary"),
+        summary: z.string(),
+        start: z.string(),
+        end: z.string(),
+        timeZone: z.string().optional(),
+        eventId: z.string().optional(),
+        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional(),
+        repeat: repeatSchema.optional()
+      })
+      .merge(commonEventFieldsSchema)
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "create-event",
+      "Create a new calendar event, including support for recurrence (raw RRULE lines or a structured repeat rule) and advanced options.",
+      createEventInput,
+      async (input) => {
+        const calendar = this.ensureCalendar(input.account);
+        const effectiveTimeZone = resolveTimeZone(input.timeZone);
+        const resolvedStart =
+          (await this.resolveDate(
+            input.start,
+            { timeZone: effectiveTimeZone, preferDateOnly: true, field: "start" },
+            input.account
+          )) ?? input.start;
+        const resolvedEnd =
+          (await this.resolveDate(
+            input.end,
+            { timeZone: effectiveTimeZone, preferDateOnly: true, field: "end" },
+            input.account
+          )) ?? input.end;
+
+        const requestBody: calendar_v3.Schema$Event = {
+          summary: input.summary,
+          start: toGoogleDate(resolvedStart, effectiveTimeZone),
+          end: toGoogleDate(resolvedEnd, effectiveTimeZone)
+        };
+
+        if (input.description !== undefined) requestBody.description = input.description;
+        if (input.location !== undefined) requestBody.location = input.location;
+        if (input.eventId) requestBody.id = input.eventId;
 
-        const created = await calendar.events.insert({
+        applyCommonEventFields(requestBody, input);
+        if (input.repeat) {
+          requestBody.recurrence = await this.compileRepeatInput(
+            input.repeat,
+            input.recurrence,
+            requestBody.start,
+            input.account
+          );
+        }
+
+        const hasAttachments = Array.isArray(input.attachments) && input.attachments.length > 0;
+        const params = {
           calendarId: input.calendarId,
-          requestBody,
           sendUpdates: input.sendUpdates,
           supportsAttachments: hasAttachments || undefined,
           conferenceDataVersion: input.conferenceData ? 1 : undefined
+        };
+        const guarded = await this.guardMutation({
+          tool: "create-event",
+          input,
+          requests: [{ method: "events.insert", params, requestBody }],
+          sendUpdates: input.sendUpdates
         });
+        if (guarded) {
+          return guarded;
+        }
+
+        const created = await calendar.events.insert({ ...params, requestBody });
+        await this.recordEventChange(input.account, "create-event", input.calendarId, null, created.data);
 
         return { content: toJsonContent({ event: created.data }) };
       }
@@ -558,59 +1446,88 @@ export class GoogleCalendarTodoMcpServer {
 
     const updateEventInput = z
       .object({
+        account: accountSchema,
         calendarId: z.string().default("primary"),
         eventId: z.string(),
         summary: z.string().optional(),
         start: z.string().optional(),
         end: z.string().optional(),
         timeZone: z.string().optional(),
-        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
+        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional(),
+        repeat: repeatSchema.optional()
       })
-      .merge(commonEventFieldsSchema);
+      .merge(commonEventFieldsSchema)
+      .merge(mutationControlSchema);
 
     this.registerTool(
       "update-event",
       "Update an existing calendar event or recurring series.",
       updateEventInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
+        const calendar = this.ensureCalendar(input.account);
         const effectiveTimeZone = resolveTimeZone(input.timeZone);
 
         const requestBody: calendar_v3.Schema$Event = {};
         if (input.summary !== undefined) requestBody.summary = input.summary;
         if (input.start !== undefined) {
-          const resolvedStart = resolveRelativeDate(input.start, {
-            timeZone: effectiveTimeZone,
-            preferDateOnly: true
-          }) ?? input.start;
+          const resolvedStart =
+            (await this.resolveDate(
+              input.start,
+              { timeZone: effectiveTimeZone, preferDateOnly: true, field: "start" },
+              input.account
+            )) ?? input.start;
           requestBody.start = toGoogleDate(resolvedStart, effectiveTimeZone);
         }
         if (input.end !== undefined) {
-          const resolvedEnd = resolveRelativeDate(input.end, {
-            timeZone: effectiveTimeZone,
-            preferDateOnly: true
-          }) ?? input.end;
+          const resolvedEnd =
+            (await this.resolveDate(
+              input.end,
+              { timeZone: effectiveTimeZone, preferDateOnly: true, field: "end" },
+              input.account
+            )) ?? input.end;
           requestBody.end = toGoogleDate(resolvedEnd, effectiveTimeZone);
         }
 
         applyCommonEventFields(requestBody, input);
+        const before = await this.findEvent({ calendarId: input.calendarId, eventId: input.eventId }, input.account);
+        if (input.repeat) {
+          const start = requestBody.start ?? before?.start;
+          requestBody.recurrence = await this.compileRepeatInput(
+            input.repeat,
+            input.recurrence,
+            start ?? undefined,
+            input.account
+          );
+        }
 
         const hasAttachments = Array.isArray(input.attachments) && input.attachments.length > 0;
-
-        const updated = await calendar.events.patch({
+        const params = {
           calendarId: input.calendarId,
           eventId: input.eventId,
-          requestBody,
           sendUpdates: input.sendUpdates,
           supportsAttachments: hasAttachments || undefined,
           conferenceDataVersion: input.conferenceData ? 1 : undefined
+        };
+        const guarded = await this.guardMutation({
+          tool: "update-event",
+          input,
+          requests: [{ method: "events.patch", params, requestBody, current: before }],
+          sendUpdates: input.sendUpdates,
+          recurring: Boolean(before?.recurrence?.length) || requestBody.recurrence !== undefined
         });
+        if (guarded) {
+          return guarded;
+        }
+
+        const updated = await calendar.events.patch({ ...params, requestBody });
+        await this.recordEventChange(input.account, "update-event", input.calendarId, before, updated.data);
 
         return { content: toJsonContent({ event: updated.data }) };
       }
     );
 
     const listEventInstancesInput = z.object({
+      account: accountSchema,
       calendarId: z.string().default("primary"),
       recurringEventId: z.string(),
       timeMin: z.string().optional(),
@@ -626,10 +1543,18 @@ export class GoogleCalendarTodoMcpServer {
       "List all instances of a recurring event.",
       listEventInstancesInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
+        const calendar = this.ensureCalendar(input.account);
         const effectiveTimeZone = resolveTimeZone(input.timeZone);
-        const timeMin = resolveRelativeDate(input.timeMin, { timeZone: effectiveTimeZone, preferDateOnly: false });
-        const timeMax = resolveRelativeDate(input.timeMax, { timeZone: effectiveTimeZone, preferDateOnly: false });
+        const timeMin = await this.resolveDate(
+          input.timeMin,
+          { timeZone: effectiveTimeZone, preferDateOnly: false, field: "timeMin" },
+          input.account
+        );
+        const timeMax = await this.resolveDate(
+          input.timeMax,
+          { timeZone: effectiveTimeZone, preferDateOnly: false, field: "timeMax" },
+          input.account
+        );
         const response = await calendar.events.instances({
           calendarId: input.calendarId,
           eventId: input.recurringEventId,
@@ -654,6 +1579,7 @@ export class GoogleCalendarTodoMcpServer {
 
     const updateEventInstanceInput = z
       .object({
+        account: accountSchema,
         calendarId: z.string().default("primary"),
         instanceId: z.string(),
         summary: z.string().optional(),
@@ -662,30 +1588,35 @@ export class GoogleCalendarTodoMcpServer {
         timeZone: z.string().optional(),
         sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
       })
-      .merge(commonEventFieldsSchema);
+      .merge(commonEventFieldsSchema)
+      .merge(mutationControlSchema);
 
     this.registerTool(
       "update-event-instance",
       "Update a single occurrence of a recurring event.",
       updateEventInstanceInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
+        const calendar = this.ensureCalendar(input.account);
         const effectiveTimeZone = resolveTimeZone(input.timeZone);
 
         const requestBody: calendar_v3.Schema$Event = {};
         if (input.summary !== undefined) requestBody.summary = input.summary;
         if (input.start !== undefined) {
-          const resolvedStart = resolveRelativeDate(input.start, {
-            timeZone: effectiveTimeZone,
-            preferDateOnly: true
-          }) ?? input.start;
+          const resolvedStart =
+            (await this.resolveDate(
+              input.start,
+              { timeZone: effectiveTimeZone, preferDateOnly: true, field: "start" },
+              input.account
+            )) ?? input.start;
           requestBody.start = toGoogleDate(resolvedStart, effectiveTimeZone);
         }
         if (input.end !== undefined) {
-          const resolvedEnd = resolveRelativeDate(input.end, {
-            timeZone: effectiveTimeZone,
-            preferDateOnly: true
-          }) ?? input.end;
+          const resolvedEnd =
+            (await this.resolveDate(
+              input.end,
+              { timeZone: effectiveTimeZone, preferDateOnly: true, field: "end" },
+              input.account
+            )) ?? input.end;
           requestBody.end = toGoogleDate(resolvedEnd, effectiveTimeZone);
         }
 
@@ -693,230 +1624,2864 @@ export class GoogleCalendarTodoMcpServer {
 
         const hasAttachments = Array.isArray(input.attachments) && input.attachments.length > 0;
 
-        const updated = await calendar.events.patch({
+        const before = await this.findEvent({ calendarId: input.calendarId, eventId: input.instanceId }, input.account);
+        const params = {
           calendarId: input.calendarId,
           eventId: input.instanceId,
-          requestBody,
           sendUpdates: input.sendUpdates,
           supportsAttachments: hasAttachments || undefined,
           conferenceDataVersion: input.conferenceData ? 1 : undefined
+        };
+        const guarded = await this.guardMutation({
+          tool: "update-event-instance",
+          input,
+          requests: [{ method: "events.patch", params, requestBody, current: before }],
+          sendUpdates: input.sendUpdates
         });
+        if (guarded) {
+          return guarded;
+        }
+
+        const updated = await calendar.events.patch({ ...params, requestBody });
+        await this.recordEventChange(input.account, "update-event-instance", input.calendarId, before, updated.data);
 
         return { content: toJsonContent({ event: updated.data }) };
       }
     );
 
-    const deleteEventInput = z.object({
-      calendarId: z.string().default("primary"),
-      eventId: z.string(),
-      sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
-    });
+    const updateEventSeriesFromInput = z
+      .object({
+        account: accountSchema,
+        calendarId: z.string().default("primary"),
+        instanceId: z.string(),
+        summary: z.string().optional(),
+        start: z.string().optional(),
+        end: z.string().optional(),
+        timeZone: z.string().optional(),
+        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional(),
+        repeat: repeatSchema.optional()
+      })
+      .merge(commonEventFieldsSchema)
+      .merge(mutationControlSchema);
 
     this.registerTool(
-      "delete-event",
-      "Delete a calendar event or recurring series.",
-      deleteEventInput,
+      "update-event-series-from",
+      "Apply changes to a recurring event from the given instance onward (\"this and following\"). The original series " +
+        "is ended before that instance and a new series with the changes starts there. start/end set the first new " +
+        "occurrence; pass repeat or recurrence to change the rule itself.",
+      updateEventSeriesFromInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
-        await calendar.events.delete({
+        const calendar = this.ensureCalendar(input.account);
+        const { master, start, pivot } = await this.loadSeriesPivot(input.calendarId, input.instanceId, input.account);
+        const seriesTimeZone = master.start?.timeZone ?? undefined;
+        const effectiveTimeZone = resolveTimeZone(input.timeZone ?? seriesTimeZone);
+        const masterEnd = toRecurrenceStart(master.end ?? undefined);
+        const durationMs = masterEnd ? masterEnd.value.diff(start.value).toMillis() : 0;
+
+        const requestBody = copySeriesFields(master);
+        requestBody.start = toEventDateTime(pivot, start.allDay, seriesTimeZone);
+        requestBody.end = toEventDateTime(pivot.plus({ milliseconds: durationMs }), start.allDay, seriesTimeZone);
+        if (input.summary !== undefined) requestBody.summary = input.summary;
+        if (input.start !== undefined) {
+          const resolvedStart =
+            (await this.resolveDate(
+              input.start,
+              { timeZone: effectiveTimeZone, preferDateOnly: start.allDay, field: "start" },
+              input.account
+            )) ?? input.start;
+          requestBody.start = toGoogleDate(resolvedStart, effectiveTimeZone);
+          const newStart = toRecurrenceStart(requestBody.start);
+          if (input.end === undefined && newStart) {
+            requestBody.end = toEventDateTime(
+              newStart.value.plus({ milliseconds: durationMs }),
+              newStart.allDay,
+              requestBody.start.timeZone
+            );
+          }
+        }
+        if (input.end !== undefined) {
+          const resolvedEnd =
+            (await this.resolveDate(
+              input.end,
+              { timeZone: effectiveTimeZone, preferDateOnly: start.allDay, field: "end" },
+              input.account
+            )) ?? input.end;
+          requestBody.end = toGoogleDate(resolvedEnd, effectiveTimeZone);
+        }
+        applyCommonEventFields(requestBody, input);
+
+        const newStart = toRecurrenceStart(requestBody.start);
+        if (!newStart) {
+          throw new McpError(ErrorCode.InvalidParams, "start must be an ISO 8601 date/time or relative expression");
+        }
+        // The rule only has to be expanded (to carry the remaining COUNT over) when the new series keeps it.
+        let truncatedRecurrence: string[] | null;
+        if (input.repeat || input.recurrence !== undefined) {
+          if (input.repeat) {
+            requestBody.recurrence = await this.compileRepeatInput(
+              input.repeat,
+              input.recurrence,
+              requestBody.start,
+              input.account
+            );
+          }
+          truncatedRecurrence = truncateRecurrence(master.recurrence ?? [], start, pivot);
+        } else {
+          const split = splitRecurrence(
+            master.recurrence ?? [],
+            start,
+            pivot,
+            newStart.value.toMillis() - pivot.toMillis()
+          );
+          if (!split) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "The series uses a COUNT rule this server cannot expand; pass recurrence or repeat for the new series"
+            );
+          }
+          requestBody.recurrence = split.after;
+          truncatedRecurrence = split.before;
+        }
+        if (!truncatedRecurrence) {
+          throw new McpError(ErrorCode.InvalidParams, "The series recurrence rule could not be parsed");
+        }
+
+        const hasAttachments = Array.isArray(requestBody.attachments) && requestBody.attachments.length > 0;
+        const writeOptions = {
           calendarId: input.calendarId,
-          eventId: input.eventId,
+          sendUpdates: input.sendUpdates,
+          supportsAttachments: hasAttachments || undefined,
+          conferenceDataVersion: requestBody.conferenceData ? 1 : undefined
+        };
+
+        const seriesParams = { ...writeOptions, eventId: master.id as string };
+        const truncateParams = {
+          calendarId: input.calendarId,
+          eventId: master.id as string,
           sendUpdates: input.sendUpdates
+        };
+        const guarded = await this.guardMutation({
+          tool: "update-event-series-from",
+          input,
+          requests:
+            pivot <= start.value
+              ? [{ method: "events.patch", params: seriesParams, requestBody, current: master }]
+              : [
+                  {
+                    method: "events.patch",
+                    params: truncateParams,
+                    requestBody: { recurrence: truncatedRecurrence },
+                    current: master
+                  },
+                  { method: "events.insert", params: writeOptions, requestBody }
+                ],
+          sendUpdates: input.sendUpdates,
+          recurring: true
         });
-        return { content: toJsonContent({ success: true }) };
+        if (guarded) {
+          return guarded;
+        }
+
+        if (pivot <= start.value) {
+          // Editing from the first occurrence is an edit of the whole series.
+          const updated = await calendar.events.patch({ ...seriesParams, requestBody });
+          await this.recordEventChange(
+            input.account,
+            "update-event-series-from",
+            input.calendarId,
+            master,
+            updated.data
+          );
+          return { content: toJsonContent({ mode: "entire-series", newSeries: mapEvent(updated.data) }) };
+        }
+
+        const truncated = await calendar.events.patch({
+          ...truncateParams,
+          requestBody: { recurrence: truncatedRecurrence }
+        });
+        let created;
+        try {
+          created = await calendar.events.insert({ ...writeOptions, requestBody });
+        } catch (error) {
+          await calendar.events.patch({
+            calendarId: input.calendarId,
+            eventId: master.id as string,
+            requestBody: { recurrence: master.recurrence },
+            sendUpdates: "none"
+          });
+          throw error;
+        }
+        await this.recordEventChange(
+          input.account,
+          "update-event-series-from",
+          input.calendarId,
+          master,
+          truncated.data
+        );
+        await this.recordEventChange(input.account, "update-event-series-from", input.calendarId, null, created.data);
+
+        return {
+          content: toJsonContent({
+            mode: "split",
+            originalSeries: mapEvent(truncated.data),
+            newSeries: mapEvent(created.data)
+          })
+        };
       }
     );
 
-    const deleteEventInstanceInput = z.object({
-      calendarId: z.string().default("primary"),
-      instanceId: z.string(),
-      sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
-    });
+    const deleteEventInput = z
+      .object({
+        account: accountSchema,
+        calendarId: z.string().default("primary"),
+        eventId: z.string(),
+        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional(),
+        clearLinkedTaskDue: z.boolean().optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "delete-event",
+      "Delete a calendar event or recurring series. clearLinkedTaskDue clears the due date of the linked task and removes its link.",
+      deleteEventInput,
+      async (input) => {
+        const calendar = this.ensureCalendar(input.account);
+        const before = await this.findEvent({ calendarId: input.calendarId, eventId: input.eventId }, input.account);
+        const params = { calendarId: input.calendarId, eventId: input.eventId, sendUpdates: input.sendUpdates };
+        const link = input.clearLinkedTaskDue && before ? readTaskLink(before) : null;
+        const linkRequests =
+          link && input.dryRun ? await this.planTaskLinkRemoval(link, input.account, input.eventId, { due: null }) : [];
+        const guarded = await this.guardMutation({
+          tool: "delete-event",
+          input,
+          requests: [{ method: "events.delete", params, current: before }, ...linkRequests],
+          deletes: true,
+          sendUpdates: input.sendUpdates,
+          recurring: Boolean(before?.recurrence?.length)
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        await calendar.events.delete(params);
+        await this.recordEventChange(input.account, "delete-event", input.calendarId, before, null);
+        if (!link) {
+          return { content: toJsonContent({ success: true }) };
+        }
+        const task = await this.clearTaskEventLink("delete-event", link, input.account, input.eventId, { due: null });
+        return { content: toJsonContent({ success: true, linkedTask: task ? mapTask(task) : null }) };
+      }
+    );
+
+    const deleteEventInstanceInput = z
+      .object({
+        account: accountSchema,
+        calendarId: z.string().default("primary"),
+        instanceId: z.string(),
+        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
+      })
+      .merge(mutationControlSchema);
 
     this.registerTool(
       "delete-event-instance",
       "Delete a single occurrence of a recurring event.",
       deleteEventInstanceInput,
       async (input) => {
-        const calendar = this.ensureCalendar();
-        await calendar.events.delete({
-          calendarId: input.calendarId,
-          eventId: input.instanceId,
+        const calendar = this.ensureCalendar(input.account);
+        const before = await this.findEvent({ calendarId: input.calendarId, eventId: input.instanceId }, input.account);
+        const params = { calendarId: input.calendarId, eventId: input.instanceId, sendUpdates: input.sendUpdates };
+        const guarded = await this.guardMutation({
+          tool: "delete-event-instance",
+          input,
+          requests: [{ method: "events.delete", params, current: before }],
+          deletes: true,
           sendUpdates: input.sendUpdates
         });
+        if (guarded) {
+          return guarded;
+        }
+
+        await calendar.events.delete(params);
+        await this.recordEventChange(input.account, "delete-event-instance", input.calendarId, before, null);
         return { content: toJsonContent({ success: true }) };
       }
     );
+
+    const deleteEventSeriesFromInput = z
+      .object({
+        account: accountSchema,
+        calendarId: z.string().default("primary"),
+        instanceId: z.string(),
+        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "delete-event-series-from",
+      "Delete a recurring event from the given instance onward (\"this and following\") by ending the series before it.",
+      deleteEventSeriesFromInput,
+      async (input) => {
+        const calendar = this.ensureCalendar(input.account);
+        const { master, start, pivot } = await this.loadSeriesPivot(input.calendarId, input.instanceId, input.account);
+        const params = { calendarId: input.calendarId, eventId: master.id as string, sendUpdates: input.sendUpdates };
+        const recurrence = pivot <= start.value ? null : truncateRecurrence(master.recurrence ?? [], start, pivot);
+        if (pivot > start.value && !recurrence) {
+          throw new McpError(ErrorCode.InvalidParams, "The series recurrence rule could not be parsed");
+        }
+        const guarded = await this.guardMutation({
+          tool: "delete-event-series-from",
+          input,
+          requests: recurrence
+            ? [{ method: "events.patch", params, requestBody: { recurrence }, current: master }]
+            : [{ method: "events.delete", params, current: master }],
+          deletes: true,
+          sendUpdates: input.sendUpdates,
+          recurring: true
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        if (!recurrence) {
+          await calendar.events.delete(params);
+          await this.recordEventChange(input.account, "delete-event-series-from", input.calendarId, master, null);
+          return { content: toJsonContent({ success: true, mode: "entire-series" }) };
+        }
+
+        const truncated = await calendar.events.patch({ ...params, requestBody: { recurrence } });
+        await this.recordEventChange(
+          input.account,
+          "delete-event-series-from",
+          input.calendarId,
+          master,
+          truncated.data
+        );
+        return { content: toJsonContent({ success: true, mode: "split", originalSeries: mapEvent(truncated.data) }) };
+      }
+    );
   }
 
   private registerTaskTools(): void {
+    const listTasklistsInput = z.object({
+      account: accountSchema
+    });
+
     this.registerTool(
       "list-tasklists",
       "List all Google Task lists available to the authenticated user.",
-      z.object({}),
-      async () => {
-        const tasks = this.ensureTasks();
-        const response = await tasks.tasklists.list({ maxResults: 100 });
-        const tasklists = (response.data.items ?? []).map((item: tasks_v1.Schema$TaskList) => ({
-          id: item.id,
-          title: item.title,
-          updated: item.updated
-        }));
-        return { content: toJsonContent({ tasklists, nextPageToken: response.data.nextPageToken ?? null }) };
+      listTasklistsInput,
+      async (input) => {
+        const tasklists = (await this.fetchTasklistEntries(input.account)).map(mapTasklist);
+        return { content: toJsonContent({ tasklists }) };
       }
     );
 
-    const listTasksInput = z.object({
-      tasklistId: z.string().default("@default"),
-      showCompleted: z.boolean().optional(),
-      showDeleted: z.boolean().optional(),
-      maxResults: z.number().int().min(1).max(100).optional(),
-      dueMin: z.string().optional(),
-      dueMax: z.string().optional()
-    });
+    const createTasklistInput = z
+      .object({
+        account: accountSchema,
+        title: z.string().min(1)
+      })
+      .merge(mutationControlSchema);
 
     this.registerTool(
-      "list-tasks",
-      "List tasks from a task list.",
-      listTasksInput,
+      "create-tasklist",
+      "Create a new Google Task list.",
+      createTasklistInput,
       async (input) => {
-        const tasks = this.ensureTasks();
-        const response = await tasks.tasks.list({
-          tasklist: input.tasklistId,
-          showCompleted: input.showCompleted,
-          showDeleted: input.showDeleted,
-          maxResults: input.maxResults,
-          dueMin: input.dueMin,
-          dueMax: input.dueMax
+        const tasks = this.ensureTasks(input.account);
+        const requestBody = { title: input.title };
+        const guarded = await this.guardMutation({
+          tool: "create-tasklist",
+          input,
+          requests: [{ method: "tasklists.insert", params: {}, requestBody }]
         });
+        if (guarded) {
+          return guarded;
+        }
 
-  const taskItems = (response.data.items ?? []).map((task: tasks_v1.Schema$Task) => ({
-          id: task.id,
-          title: task.title,
-          notes: task.notes ?? null,
-          status: task.status,
-          due: task.due ?? null,
-          completed: task.completed ?? null,
-          updated: task.updated
-        }));
-
-        return { content: toJsonContent({ tasks: taskItems, nextPageToken: response.data.nextPageToken ?? null }) };
+        const created = await tasks.tasklists.insert({ requestBody });
+        return { content: toJsonContent({ tasklist: mapTasklist(created.data) }) };
       }
     );
 
-    const createTaskInput = z.object({
-      tasklistId: z.string().default("@default"),
-      title: z.string(),
-      notes: z.string().optional(),
-      due: z.string().optional()
-    });
+    const updateTasklistInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string(),
+        title: z.string().min(1)
+      })
+      .merge(mutationControlSchema);
 
     this.registerTool(
-      "create-task",
-      "Create a new task in the specified task list.",
-      createTaskInput,
+      "update-tasklist",
+      "Rename a Google Task list.",
+      updateTasklistInput,
       async (input) => {
-        const tasks = this.ensureTasks();
-        const created = await tasks.tasks.insert({
-          tasklist: input.tasklistId,
-          requestBody: {
-            title: input.title,
-            notes: input.notes,
-            due: input.due
-          }
+        const tasks = this.ensureTasks(input.account);
+        const params = { tasklist: input.tasklistId };
+        const requestBody = { title: input.title };
+        const guarded = await this.guardMutation({
+          tool: "update-tasklist",
+          input,
+          requests: [
+            {
+              method: "tasklists.patch",
+              params,
+              requestBody,
+              current: input.dryRun ? (await tasks.tasklists.get(params)).data : undefined
+            }
+          ]
         });
+        if (guarded) {
+          return guarded;
+        }
 
-        return { content: toJsonContent({ task: created.data }) };
+        const updated = await tasks.tasklists.patch({ ...params, requestBody });
+        return { content: toJsonContent({ tasklist: mapTasklist(updated.data) }) };
       }
     );
 
-    const updateTaskInput = z.object({
-      tasklistId: z.string().default("@default"),
-      taskId: z.string(),
-      title: z.string().optional(),
-      notes: z.string().optional(),
-      due: z.string().optional(),
-      status: z.enum(["needsAction", "completed"]).optional()
-    });
+    const deleteTasklistInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string()
+      })
+      .merge(mutationControlSchema);
 
     this.registerTool(
-      "update-task",
-      "Update a task in the specified task list.",
-      updateTaskInput,
+      "delete-tasklist",
+      "Delete a Google Task list and all tasks in it.",
+      deleteTasklistInput,
       async (input) => {
-        const tasks = this.ensureTasks();
-
-        const requestBody: tasks_v1.Schema$Task = {};
-        if (input.title !== undefined) requestBody.title = input.title;
-        if (input.notes !== undefined) requestBody.notes = input.notes;
-        if (input.due !== undefined) requestBody.due = input.due;
-        if (input.status !== undefined) {
-          requestBody.status = input.status;
-          if (input.status === "completed") {
-            requestBody.completed = new Date().toISOString();
-          }
-        }
-
-        const updated = await tasks.tasks.patch({
-          tasklist: input.tasklistId,
-          task: input.taskId,
-          requestBody
+        const tasks = this.ensureTasks(input.account);
+        const params = { tasklist: input.tasklistId };
+        const guarded = await this.guardMutation({
+          tool: "delete-tasklist",
+          input,
+          requests: [
+            {
+              method: "tasklists.delete",
+              params,
+              current: input.dryRun ? (await tasks.tasklists.get(params)).data : undefined
+            }
+          ],
+          deletes: true
         });
+        if (guarded) {
+          return guarded;
+        }
 
-        return { content: toJsonContent({ task: updated.data }) };
+        await tasks.tasklists.delete(params);
+        return { content: toJsonContent({ success: true }) };
       }
     );
 
-    const completeTaskInput = z.object({
-      tasklistId: z.string().default("@default"),
-      taskId: z.string()
-    });
+    const clearCompletedTasksInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default")
+      })
+      .merge(mutationControlSchema);
 
     this.registerTool(
-      "complete-task",
-      "Mark a task as completed.",
-      completeTaskInput,
+      "clear-completed-tasks",
+      "Clear all completed tasks from a task list. Cleared tasks are hidden and no longer returned by default.",
+      clearCompletedTasksInput,
       async (input) => {
-        const tasks = this.ensureTasks();
-        const completedAt = new Date().toISOString();
-        const updated = await tasks.tasks.patch({
-          tasklist: input.tasklistId,
-          task: input.taskId,
-          requestBody: {
-            status: "completed",
-            completed: completedAt
-          }
+        const tasks = this.ensureTasks(input.account);
+        const params = { tasklist: input.tasklistId };
+        const guarded = await this.guardMutation({
+          tool: "clear-completed-tasks",
+          input,
+          requests: [{ method: "tasks.clear", params }],
+          deletes: true
         });
-        return { content: toJsonContent({ task: updated.data }) };
-      }
-    );
+        if (guarded) {
+          return guarded;
+        }
+
+        await tasks.tasks.clear(params);
+        return { content: toJsonContent({ success: true }) };
+      }
+    );
+
+    const listTasksInput = z.object({
+      account: accountSchema,
+      tasklistId: z.string().default("@default"),
+      showCompleted: z.boolean().optional(),
+      showDeleted: z.boolean().optional(),
+      maxResults: z.number().int().min(1).max(100).optional(),
+      dueMin: z.string().optional(),
+      dueMax: z.string().optional(),
+      useCache: z.boolean().optional(),
+      nested: z.boolean().optional(),
+      resolveLinks: z.boolean().optional()
+    });
+
+    this.registerTool(
+      "list-tasks",
+      "List tasks from a task list. dueMin/dueMax accept dates or relative expressions and are inclusive local dates. " +
+        "Set useCache to read from the local sync cache and nested to return subtasks under their parents, ordered by position. " +
+        "nested always returns the whole list, so maxResults is ignored and there is no nextPageToken. " +
+        "resolveLinks fetches the summary and time of each task's linked event.",
+      listTasksInput,
+      async (input) => {
+        const tasks = this.ensureTasks(input.account);
+        const dueMin = await this.resolveTaskDate(input.dueMin, "dueMin", input.account);
+        const dueMax = await this.resolveTaskDate(input.dueMax, "dueMax", input.account, 1);
+        if (input.useCache ?? isCacheEnabledByDefault()) {
+          const cache = this.getSyncCache(input.account);
+          const sync = await cache.syncTasklist(tasks, input.tasklistId);
+          const cached = await cache.readTasks(input.tasklistId);
+          let taskItems = filterCachedTasks(cached?.tasks ?? [], {
+            showCompleted: input.showCompleted,
+            showDeleted: input.showDeleted,
+            dueMin,
+            dueMax,
+            // A subtask cut off from its parent would show up as a top-level task.
+            maxResults: input.nested ? undefined : input.maxResults
+          }).map(mapTask);
+          if (input.resolveLinks) {
+            taskItems = await this.resolveEventLinks(input.account, taskItems);
+          }
+          return {
+            content: toJsonContent({
+              tasks: input.nested ? buildTaskTree(taskItems) : taskItems,
+              nextPageToken: null,
+              cache: summarizeSync(sync)
+            })
+          };
+        }
+
+        const filters = { showCompleted: input.showCompleted, showDeleted: input.showDeleted, dueMin, dueMax };
+        if (input.nested) {
+          // Subtasks can be on a different page than their parent, so the tree is built from every page.
+          let taskItems = (await this.fetchAllTasks(input.account, input.tasklistId, filters)).map(mapTask);
+          if (input.resolveLinks) {
+            taskItems = await this.resolveEventLinks(input.account, taskItems);
+          }
+          return { content: toJsonContent({ tasks: buildTaskTree(taskItems), nextPageToken: null }) };
+        }
+
+        const response = await tasks.tasks.list({
+          ...filters,
+          tasklist: input.tasklistId,
+          maxResults: input.maxResults
+        });
+
+        let taskItems = (response.data.items ?? []).map(mapTask);
+        if (input.resolveLinks) {
+          taskItems = await this.resolveEventLinks(input.account, taskItems);
+        }
+
+        return {
+          content: toJsonContent({
+            tasks: taskItems,
+            nextPageToken: response.data.nextPageToken ?? null
+          })
+        };
+      }
+    );
+
+    const searchTasksInput = z.object({
+      account: accountSchema,
+      tasklistIds: z.array(z.string()).min(1).optional(),
+      query: z.string().optional(),
+      status: z.enum(["needsAction", "completed"]).optional(),
+      due: z.enum(["overdue", "today", "thisWeek", "none"]).optional(),
+      completedMin: z.string().optional(),
+      completedMax: z.string().optional(),
+      hasSubtasks: z.boolean().optional(),
+      maxResults: z.number().int().min(1).max(1000).default(100),
+      useCache: z.boolean().optional()
+    });
+
+    this.registerTool(
+      "search-tasks",
+      "Search tasks across all (or the given) task lists. Filters by keyword in title/notes, status, due window " +
+        "(overdue, today, thisWeek, none), completion time range and whether a task has subtasks. " +
+        "Results are sorted by due date and tagged with their task list.",
+      searchTasksInput,
+      async (input) => {
+        const timeZone = getUserTimeZone();
+        const today = DateTime.now().setZone(timeZone).startOf("day");
+        const todayDate = formatIsoDate(today);
+        const weekStart = formatIsoDate(today.startOf("week"));
+        const weekEnd = formatIsoDate(today.endOf("week"));
+        const completedMin = await this.resolveDate(
+          input.completedMin,
+          { timeZone, preferDateOnly: false, field: "completedMin" },
+          input.account
+        );
+        const completedMax = await this.resolveDate(
+          input.completedMax,
+          { timeZone, preferDateOnly: false, field: "completedMax" },
+          input.account
+        );
+        const completedMinMs = completedMin ? DateTime.fromISO(completedMin, { zone: timeZone }).toMillis() : null;
+        const completedMaxMs = completedMax ? DateTime.fromISO(completedMax, { zone: timeZone }).toMillis() : null;
+        const includeHidden = input.status === "completed" || completedMin !== undefined || completedMax !== undefined;
+        const query = input.query?.trim().toLowerCase();
+
+        const sources = await this.fetchTasksAcrossLists(
+          input.account,
+          input.tasklistIds,
+          input.useCache ?? isCacheEnabledByDefault()
+        );
+        const perList = sources.map(({ tasklist, items }) => {
+          const tasklistId = tasklist.id as string;
+          const parents = new Set(items.map((task) => task.parent).filter((id): id is string => Boolean(id)));
+          return items
+            .filter((task) => {
+              if (task.deleted || (task.hidden && !includeHidden)) {
+                return false;
+              }
+              if (query && !`${task.title ?? ""}\n${task.notes ?? ""}`.toLowerCase().includes(query)) {
+                return false;
+              }
+              if (input.status && task.status !== input.status) {
+                return false;
+              }
+              const due = formatTaskDue(task.due);
+              switch (input.due) {
+                case "overdue":
+                  if (!due || due >= todayDate || task.status === "completed") return false;
+                  break;
+                case "today":
+                  if (due !== todayDate) return false;
+                  break;
+                case "thisWeek":
+                  if (!due || due < weekStart || due > weekEnd) return false;
+                  break;
+                case "none":
+                  if (due) return false;
+                  break;
+              }
+              if (completedMinMs !== null || completedMaxMs !== null) {
+                const completed = task.completed ? Date.parse(task.completed) : null;
+                if (completed === null) return false;
+                if (completedMinMs !== null && completed < completedMinMs) return false;
+                if (completedMaxMs !== null && completed > completedMaxMs) return false;
+              }
+              if (input.hasSubtasks !== undefined && parents.has(task.id ?? "") !== input.hasSubtasks) {
+                return false;
+              }
+              return true;
+            })
+            .map((task) => ({
+              ...mapTask(task),
+              tasklistId,
+              tasklistTitle: tasklist.title ?? null,
+              hasSubtasks: parents.has(task.id ?? "")
+            }));
+        });
+
+        const matches = perList.flat().sort((a, b) => {
+          if (a.due !== b.due) {
+            return a.due === null ? 1 : b.due === null ? -1 : a.due.localeCompare(b.due);
+          }
+          return byPosition(a, b);
+        });
+
+        return {
+          content: toJsonContent({
+            tasks: matches.slice(0, input.maxResults),
+            total: matches.length,
+            truncated: matches.length > input.maxResults,
+            searchedTasklists: sources.map(({ tasklist }) => mapTasklist(tasklist))
+          })
+        };
+      }
+    );
+
+    const rescheduleTasksInput = z.object({
+      account: accountSchema,
+      tasklistIds: z.array(z.string()).min(1).optional(),
+      taskIds: z.array(z.string()).min(1).optional(),
+      overdue: z.boolean().optional(),
+      dueMin: z.string().optional(),
+      dueMax: z.string().optional(),
+      newDue: z.string().optional(),
+      shiftBusinessDays: z.number().int().optional(),
+      dryRun: z.boolean().optional()
+    });
+
+    this.registerTool(
+      "reschedule-tasks",
+      "Change the due date of many open tasks at once. Select tasks by list (tasklistIds), taskIds, overdue and/or an " +
+        "inclusive dueMin/dueMax range, then set newDue (absolute or relative, e.g. today or next monday) or shift the " +
+        "current due date by shiftBusinessDays. dryRun reports the changes without applying them.",
+      rescheduleTasksInput,
+      async (input) => {
+        if ((input.newDue === undefined) === (input.shiftBusinessDays === undefined)) {
+          throw new McpError(ErrorCode.InvalidParams, "Provide exactly one of newDue or shiftBusinessDays");
+        }
+        if (
+          !input.tasklistIds &&
+          !input.taskIds &&
+          !input.overdue &&
+          input.dueMin === undefined &&
+          input.dueMax === undefined
+        ) {
+          throw new McpError(ErrorCode.InvalidParams, "Select tasks with tasklistIds, taskIds, overdue, dueMin or dueMax");
+        }
+
+        const tasks = this.ensureTasks(input.account);
+        const todayDate = formatIsoDate(DateTime.now().setZone(getUserTimeZone()));
+        const dueMin = formatTaskDue(await this.resolveTaskDate(input.dueMin, "dueMin", input.account));
+        const dueMax = formatTaskDue(await this.resolveTaskDate(input.dueMax, "dueMax", input.account));
+        const newDue = await this.resolveTaskDate(input.newDue, "newDue", input.account);
+        const businessCalendar =
+          input.shiftBusinessDays !== undefined ? await this.getBusinessCalendar(input.account) : undefined;
+
+        const sources = await this.fetchTasksAcrossLists(input.account, input.tasklistIds, false);
+        const results: Array<{
+          tasklistId: string | null;
+          tasklistTitle: string | null;
+          taskId: string | null;
+          title: string | null;
+          previousDue: string | null;
+          newDue: string | null;
+          status: "planned" | "updated" | "unchanged" | "failed";
+          error?: string;
+        }> = [];
+        for (const { tasklist, items } of sources) {
+          for (const task of items) {
+            const due = formatTaskDue(task.due);
+            const selected =
+              !task.deleted &&
+              !task.hidden &&
+              task.status !== "completed" &&
+              (!input.taskIds || input.taskIds.includes(task.id ?? "")) &&
+              (!input.overdue || (due !== null && due < todayDate)) &&
+              (!dueMin || (due !== null && due >= dueMin)) &&
+              (!dueMax || (due !== null && due <= dueMax));
+            if (!selected) {
+              continue;
+            }
+
+            const base = {
+              tasklistId: tasklist.id ?? null,
+              tasklistTitle: tasklist.title ?? null,
+              taskId: task.id ?? null,
+              title: task.title ?? null,
+              previousDue: due
+            };
+            let targetDue = newDue;
+            if (businessCalendar) {
+              if (!due) {
+                results.push({ ...base, newDue: null, status: "failed", error: "Task has no due date to shift" });
+                continue;
+              }
+              const shifted = addBusinessDays(DateTime.fromISO(due), input.shiftBusinessDays as number, businessCalendar);
+              targetDue = toTaskDue(formatIsoDate(shifted));
+            }
+
+            const result = { ...base, newDue: formatTaskDue(targetDue) };
+            if (result.newDue === due) {
+              results.push({ ...result, status: "unchanged" });
+              continue;
+            }
+            if (input.dryRun) {
+              results.push({ ...result, status: "planned" });
+              continue;
+            }
+            try {
+              const updated = await tasks.tasks.patch({
+                tasklist: tasklist.id as string,
+                task: task.id as string,
+                requestBody: { due: targetDue }
+              });
+              await this.recordTaskChange(input.account, "reschedule-tasks", tasklist.id as string, task, updated.data);
+              results.push({ ...result, status: "updated" });
+            } catch (error) {
+              if (isInvalidGrantError(error)) {
+                throw error;
+              }
+              results.push({ ...result, status: "failed", error: error instanceof Error ? error.message : String(error) });
+            }
+          }
+        }
+
+        const missing = input.taskIds?.filter((id) => !results.some((result) => result.taskId === id)) ?? [];
+        const count = (status: string) => results.filter((result) => result.status === status).length;
+        return {
+          content: toJsonContent({
+            dryRun: input.dryRun ?? false,
+            summary: {
+              matched: results.length,
+              updated: count("updated"),
+              planned: count("planned"),
+              unchanged: count("unchanged"),
+              failed: count("failed")
+            },
+            results,
+            notMatched: missing
+          })
+        };
+      }
+    );
+
+    const scheduleTasksInput = z.object({
+      account: accountSchema,
+      tasklistIds: z.array(z.string()).min(1).optional(),
+      taskIds: z.array(z.string()).min(1).optional(),
+      query: z.string().optional(),
+      dueMax: z.string().optional(),
+      durations: z.record(z.number().int().min(5).max(24 * 60)).optional(),
+      defaultDurationMinutes: z.number().int().min(5).max(24 * 60).optional(),
+      timeMin: z.string().optional(),
+      timeMax: z.string(),
+      timeZone: z.string().optional(),
+      calendarId: z.string().default("primary"),
+      respectWorkingHours: z.boolean().default(true),
+      workingHours: workingHoursSchema.optional(),
+      bufferMinutes: z.number().int().min(0).default(0),
+      summaryPrefix: z.string().default("Focus: "),
+      dryRun: z.boolean().optional()
+    });
+
+    this.registerTool(
+      "schedule-tasks",
+      "Time-block open tasks into free time on a calendar, earliest due date first. Select tasks by taskIds or by " +
+        "tasklistIds plus query/dueMax. Durations come from durations[taskId], an [est:45m] tag in the notes, or " +
+        "defaultDurationMinutes. Focus events link back to their task through extendedProperties.private " +
+        `(${TASK_LINK_PROPERTY}, ${TASKLIST_LINK_PROPERTY}) and the task notes get an [event:...] marker; tasks that ` +
+        "already have a linked event in the window are skipped. " +
+        "respectWorkingHours (default true) keeps blocks within workingHours (default 09:00-18:00) on business days. " +
+        "dryRun returns the plan without creating events.",
+      scheduleTasksInput,
+      async (input) => {
+        const effectiveTimeZone = resolveTimeZone(input.timeZone);
+        const range = {
+          start:
+            input.timeMin !== undefined
+              ? await this.parseDateTimeInput("timeMin", input.timeMin, effectiveTimeZone, input.account)
+              : DateTime.now().setZone(effectiveTimeZone),
+          end: await this.parseDateTimeInput("timeMax", input.timeMax, effectiveTimeZone, input.account)
+        };
+        if (range.end <= range.start) {
+          throw new McpError(ErrorCode.InvalidParams, "timeMax must be after timeMin");
+        }
+
+        const dueMax = formatTaskDue(await this.resolveTaskDate(input.dueMax, "dueMax", input.account));
+        const query = input.query?.toLowerCase();
+        const sources = await this.fetchTasksAcrossLists(input.account, input.tasklistIds, false);
+        const candidates = sources.flatMap(({ tasklist, items }) =>
+          items
+            .filter(
+              (task) =>
+                !task.deleted &&
+                !task.hidden &&
+                task.status !== "completed" &&
+                (!input.taskIds || input.taskIds.includes(task.id ?? "")) &&
+                (!query || `${task.title ?? ""}\n${task.notes ?? ""}`.toLowerCase().includes(query)) &&
+                (!dueMax || (formatTaskDue(task.due) !== null && (formatTaskDue(task.due) as string) <= dueMax))
+            )
+            .map((task) => ({ tasklist, task }))
+        );
+
+        const linkedEvents = await this.fetchTaskLinkedEvents(input.calendarId, range, input.account);
+        const unscheduled: Array<{ taskId: string | null; title: string | null; reason: string; eventId?: string | null }> =
+          [];
+        const schedulable: Array<{
+          tasklist: tasks_v1.Schema$TaskList;
+          task: tasks_v1.Schema$Task;
+          durationMinutes: number;
+          durationSource: "explicit" | "notes" | "default";
+        }> = [];
+        for (const { tasklist, task } of candidates) {
+          const taskId = task.id ?? "";
+          const linked = linkedEvents.get(taskId);
+          if (linked) {
+            unscheduled.push({ taskId, title: task.title ?? null, reason: "alreadyScheduled", eventId: linked.id ?? null });
+            continue;
+          }
+          const explicit = input.durations?.[taskId];
+          const estimate = parseEstimateMinutes(task.notes);
+          const durationMinutes = explicit ?? estimate ?? input.defaultDurationMinutes;
+          if (durationMinutes === undefined) {
+            unscheduled.push({ taskId, title: task.title ?? null, reason: "noDurationEstimate" });
+            continue;
+          }
+          schedulable.push({
+            tasklist,
+            task,
+            durationMinutes,
+            durationSource: explicit !== undefined ? "explicit" : estimate !== undefined ? "notes" : "default"
+          });
+        }
+
+        const { busyById, errors } = await this.queryFreeBusy([input.calendarId], range, effectiveTimeZone, input.account);
+        // Without the calendar's busy times every slot looks free, so blocks would land on top of meetings.
+        const busyError = errors.find((error) => error.id === input.calendarId);
+        if (busyError) {
+          throw new McpError(
+            busyError.reason === "notFound" ? ErrorCode.InvalidParams : ErrorCode.InternalError,
+            `Could not read busy times of calendar ${input.calendarId} (${busyError.reason}); no tasks were scheduled`
+          );
+        }
+        const busy = [...(busyById.get(input.calendarId) ?? [])];
+        let daysOfWeek: number[] | undefined;
+        if (input.respectWorkingHours) {
+          const businessCalendar = await this.getBusinessCalendar(input.account);
+          daysOfWeek = [1, 2, 3, 4, 5, 6, 7].filter((day) => !businessCalendar.weekend.has(day));
+          for (const holiday of businessCalendar.holidays) {
+            const start = DateTime.fromISO(holiday, { zone: effectiveTimeZone });
+            busy.push({ start, end: start.plus({ days: 1 }) });
+          }
+        }
+
+        const freeSlots =
+          schedulable.length > 0
+            ? computeFreeSlots(range, mergeRanges(busy), {
+                timeZone: effectiveTimeZone,
+                minDurationMinutes: Math.min(...schedulable.map((entry) => entry.durationMinutes)),
+                workingHours: input.respectWorkingHours ? input.workingHours ?? DEFAULT_WORKING_HOURS : undefined,
+                daysOfWeek
+              })
+            : [];
+        const plan = planTaskBlocks(
+          freeSlots,
+          schedulable.map((entry) => ({
+            id: entry.task.id as string,
+            due: formatTaskDue(entry.task.due),
+            durationMinutes: entry.durationMinutes
+          })),
+          { timeZone: effectiveTimeZone, alignMinutes: TASK_BLOCK_ALIGN_MINUTES, bufferMinutes: input.bufferMinutes }
+        );
+
+        const entriesById = new Map(schedulable.map((entry) => [entry.task.id as string, entry] as const));
+        for (const taskId of plan.unscheduled) {
+          unscheduled.push({ taskId, title: entriesById.get(taskId)?.task.title ?? null, reason: "noFreeSlot" });
+        }
+
+        const calendar = this.ensureCalendar(input.account);
+        const scheduled = [];
+        for (const block of plan.blocks) {
+          const { tasklist, task, durationMinutes, durationSource } = entriesById.get(block.id) as (typeof schedulable)[number];
+          const requestBody: calendar_v3.Schema$Event = {
+            summary: `${input.summaryPrefix}${task.title ?? ""}`,
+            description: [withEventLink(task.notes, null), task.webViewLink].filter(Boolean).join("\n\n") || undefined,
+            start: { dateTime: formatIso(block.start), timeZone: effectiveTimeZone },
+            end: { dateTime: formatIso(block.end), timeZone: effectiveTimeZone },
+            transparency: "opaque",
+            extendedProperties: {
+              private: toTaskLinkProperties({ tasklistId: tasklist.id as string, taskId: block.id })
+            }
+          };
+          const result = {
+            taskId: block.id,
+            tasklistId: tasklist.id ?? null,
+            title: task.title ?? null,
+            due: formatTaskDue(task.due),
+            durationMinutes,
+            durationSource,
+            start: formatIso(block.start),
+            end: formatIso(block.end),
+            afterDue: block.afterDue
+          };
+          if (input.dryRun) {
+            scheduled.push({ ...result, status: "planned", eventRequest: requestBody });
+            continue;
+          }
+          let created: calendar_v3.Schema$Event;
+          try {
+            created = (await calendar.events.insert({ calendarId: input.calendarId, requestBody })).data;
+          } catch (error) {
+            if (isInvalidGrantError(error)) {
+              throw error;
+            }
+            scheduled.push({ ...result, status: "failed", error: error instanceof Error ? error.message : String(error) });
+            continue;
+          }
+          await this.recordEventChange(input.account, "schedule-tasks", input.calendarId, null, created);
+          try {
+            const linked = await this.ensureTasks(input.account).tasks.patch({
+              tasklist: tasklist.id as string,
+              task: block.id,
+              requestBody: {
+                notes: withEventLink(task.notes, { calendarId: input.calendarId, eventId: created.id as string })
+              }
+            });
+            await this.recordTaskChange(input.account, "schedule-tasks", tasklist.id as string, task, linked.data);
+            scheduled.push({ ...result, status: "created", event: mapEvent(created) });
+          } catch (error) {
+            if (isInvalidGrantError(error)) {
+              throw error;
+            }
+            // The event is on the calendar and points at the task, but the task notes have no marker back to it.
+            scheduled.push({
+              ...result,
+              status: "createdUnlinked",
+              event: mapEvent(created),
+              error: error instanceof Error ? error.message : String(error)
+            });
+          }
+        }
+
+        return {
+          content: toJsonContent({
+            dryRun: input.dryRun ?? false,
+            calendarId: input.calendarId,
+            timeZone: effectiveTimeZone,
+            timeMin: formatIso(range.start),
+            timeMax: formatIso(range.end),
+            scheduled,
+            unscheduled,
+            errors
+          })
+        };
+      }
+    );
+
+    const createTaskInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        title: z.string(),
+        notes: z.string().optional(),
+        due: z.string().optional(),
+        parent: z.string().optional(),
+        previous: z.string().optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "create-task",
+      "Create a new task in the specified task list. Set parent to create a subtask and previous to place it after a sibling.",
+      createTaskInput,
+      async (input) => {
+        const tasks = this.ensureTasks(input.account);
+        const due = await this.resolveTaskDate(input.due, "due", input.account);
+        const params = { tasklist: input.tasklistId, parent: input.parent, previous: input.previous };
+        const requestBody = { title: input.title, notes: input.notes, due };
+        const guarded = await this.guardMutation({
+          tool: "create-task",
+          input,
+          requests: [{ method: "tasks.insert", params, requestBody }]
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        const created = await tasks.tasks.insert({ ...params, requestBody });
+        await this.recordTaskChange(input.account, "create-task", input.tasklistId, null, created.data);
+
+        return { content: toJsonContent({ task: created.data }) };
+      }
+    );
+
+    const updateTaskInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        taskId: z.string(),
+        title: z.string().optional(),
+        notes: z.string().optional(),
+        due: z.string().optional(),
+        status: z.enum(["needsAction", "completed"]).optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "update-task",
+      "Update a task in the specified task list.",
+      updateTaskInput,
+      async (input) => {
+        const tasks = this.ensureTasks(input.account);
+
+        const requestBody: tasks_v1.Schema$Task = {};
+        if (input.title !== undefined) requestBody.title = input.title;
+        if (input.notes !== undefined) requestBody.notes = input.notes;
+        if (input.due !== undefined) requestBody.due = await this.resolveTaskDate(input.due, "due", input.account);
+        if (input.status !== undefined) {
+          requestBody.status = input.status;
+          if (input.status === "completed") {
+            requestBody.completed = new Date().toISOString();
+          }
+        }
+
+        const before = await this.findTask({ tasklistId: input.tasklistId, taskId: input.taskId }, input.account);
+        const params = { tasklist: input.tasklistId, task: input.taskId };
+        const guarded = await this.guardMutation({
+          tool: "update-task",
+          input,
+          requests: [{ method: "tasks.patch", params, requestBody, current: before }]
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        const updated = await tasks.tasks.patch({ ...params, requestBody });
+        await this.recordTaskChange(input.account, "update-task", input.tasklistId, before, updated.data);
+
+        return { content: toJsonContent({ task: updated.data }) };
+      }
+    );
+
+    const completeTaskInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        taskId: z.string(),
+        markLinkedEvent: z.boolean().optional(),
+        linkedEventColorId: z.string().optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "complete-task",
+      "Mark a task as completed. For a task linked to an event, markLinkedEvent prefixes the event summary with " +
+        `"${COMPLETED_EVENT_PREFIX.trim()}" and linkedEventColorId recolors it.`,
+      completeTaskInput,
+      async (input) => {
+        const tasks = this.ensureTasks(input.account);
+        const completedAt = new Date().toISOString();
+        const before = await this.findTask({ tasklistId: input.tasklistId, taskId: input.taskId }, input.account);
+        const params = { tasklist: input.tasklistId, task: input.taskId };
+        const requestBody: tasks_v1.Schema$Task = { status: "completed", completed: completedAt };
+
+        const link = readEventLink(before?.notes);
+        const updatesEvent = Boolean(link) && (input.markLinkedEvent || input.linkedEventColorId !== undefined);
+        const event = link && updatesEvent ? await this.findEvent(link, input.account) : null;
+        const eventRequestBody: calendar_v3.Schema$Event = {};
+        if (input.markLinkedEvent && event && !(event.summary ?? "").startsWith(COMPLETED_EVENT_PREFIX)) {
+          eventRequestBody.summary = `${COMPLETED_EVENT_PREFIX}${event.summary ?? ""}`;
+        }
+        if (input.linkedEventColorId !== undefined) eventRequestBody.colorId = input.linkedEventColorId;
+
+        const requests: MutationRequest[] = [{ method: "tasks.patch", params, requestBody, current: before }];
+        if (link && event) {
+          requests.push({ method: "events.patch", params: { ...link }, requestBody: eventRequestBody, current: event });
+        }
+        const guarded = await this.guardMutation({ tool: "complete-task", input, requests });
+        if (guarded) {
+          return guarded;
+        }
+
+        const updated = await tasks.tasks.patch({ ...params, requestBody });
+        await this.recordTaskChange(input.account, "complete-task", input.tasklistId, before, updated.data);
+
+        if (!link || !updatesEvent) {
+          return { content: toJsonContent({ task: updated.data }) };
+        }
+        if (!event) {
+          return { content: toJsonContent({ task: updated.data, linkedEvent: null }) };
+        }
+        const patched = await this.ensureCalendar(input.account).events.patch({
+          calendarId: link.calendarId,
+          eventId: link.eventId,
+          requestBody: eventRequestBody
+        });
+        await this.recordEventChange(input.account, "complete-task", link.calendarId, event, patched.data);
+        return { content: toJsonContent({ task: updated.data, linkedEvent: mapEvent(patched.data) }) };
+      }
+    );
+
+    const deleteTaskInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        taskId: z.string()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "delete-task",
+      "Delete a task from the specified task list.",
+      deleteTaskInput,
+      async (input) => {
+        const tasks = this.ensureTasks(input.account);
+        const before = await this.findTask({ tasklistId: input.tasklistId, taskId: input.taskId }, input.account);
+        const params = { tasklist: input.tasklistId, task: input.taskId };
+        const guarded = await this.guardMutation({
+          tool: "delete-task",
+          input,
+          requests: [{ method: "tasks.delete", params, current: before }],
+          deletes: true
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        await tasks.tasks.delete(params);
+        await this.recordTaskChange(input.account, "delete-task", input.tasklistId, before, null);
+        return { content: toJsonContent({ success: true }) };
+      }
+    );
+
+    const moveTaskInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        taskId: z.string(),
+        parent: z.string().optional(),
+        previous: z.string().optional(),
+        destinationTasklistId: z.string().optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "move-task",
+      "Move a task under a new parent and/or after a sibling. Omit parent to make it a top-level task. " +
+        "With destinationTasklistId the task and its subtasks are copied to that list and then deleted from the original.",
+      moveTaskInput,
+      async (input) => {
+        const tasks = this.ensureTasks(input.account);
+        const sameList = !input.destinationTasklistId || input.destinationTasklistId === input.tasklistId;
+        const params = { tasklist: input.tasklistId, task: input.taskId };
+        const placement = { parent: input.parent, previous: input.previous };
+        const before = await this.findTask({ tasklistId: input.tasklistId, taskId: input.taskId }, input.account);
+        const guarded = await this.guardMutation({
+          tool: "move-task",
+          input,
+          // A move to another list copies the task tree there and deletes the originals, so the task IDs change.
+          requests: sameList
+            ? [{ method: "tasks.move", params: { ...params, ...placement } }]
+            : [
+                {
+                  method: "tasks.insert",
+                  params: { tasklist: input.destinationTasklistId, ...placement },
+                  requestBody: before && {
+                    title: before.title,
+                    notes: before.notes,
+                    due: before.due,
+                    status: before.status,
+                    completed: before.completed
+                  }
+                },
+                { method: "tasks.delete", params, current: before }
+              ],
+          deletes: !sameList
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        if (sameList) {
+          const moved = await tasks.tasks.move({ ...params, ...placement });
+          await this.recordTaskChange(input.account, "move-task", input.tasklistId, before, moved.data);
+          return { content: toJsonContent({ task: mapTask(moved.data) }) };
+        }
+
+        const copy = await this.copyTaskTree(
+          input.account,
+          input.tasklistId,
+          input.taskId,
+          input.destinationTasklistId as string,
+          placement
+        );
+        const destinationTasklistId = input.destinationTasklistId as string;
+        for (const { copy: created } of copy.copies) {
+          await this.recordTaskChange(input.account, "move-task", destinationTasklistId, null, created);
+        }
+        for (const { source } of [...copy.copies].reverse()) {
+          await tasks.tasks.delete({ tasklist: input.tasklistId, task: source.id as string }).catch((error: unknown) => {
+            // Deleting a parent can remove its subtasks first.
+            if (getErrorStatus(error) !== 404) {
+              throw error;
+            }
+          });
+          await this.recordTaskChange(input.account, "move-task", input.tasklistId, source, null);
+        }
+
+        return {
+          content: toJsonContent({
+            task: mapTask(copy.task),
+            tasklistId: input.destinationTasklistId,
+            idMap: Object.fromEntries(copy.idMap)
+          })
+        };
+      }
+    );
+  }
+
+  private registerLinkTools(): void {
+    const linkTaskEventInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        taskId: z.string(),
+        calendarId: z.string().default("primary"),
+        eventId: z.string()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "link-task-event",
+      `Link a task and an event. The event stores the task in extendedProperties.private (${TASK_LINK_PROPERTY}, ` +
+        `${TASKLIST_LINK_PROPERTY}) and the task notes get an [event:<calendarId>/<eventId>] marker. ` +
+        "Existing links of either side to something else are removed.",
+      linkTaskEventInput,
+      async (input) => {
+        const tasklistId = await this.resolveTasklistId(input.tasklistId, input.account);
+        const taskLink = { tasklistId, taskId: input.taskId };
+        const eventLink = { calendarId: input.calendarId, eventId: input.eventId };
+        const guarded = await this.guardMutation({
+          tool: "link-task-event",
+          input,
+          requests: input.dryRun ? await this.planTaskEventLink(taskLink, eventLink, input.account) : []
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        const linked = await this.setTaskEventLink("link-task-event", taskLink, eventLink, input.account);
+        return { content: toJsonContent({ task: mapTask(linked.task), event: mapEvent(linked.event) }) };
+      }
+    );
+
+    const unlinkTaskEventInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        taskId: z.string().optional(),
+        calendarId: z.string().default("primary"),
+        eventId: z.string().optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "unlink-task-event",
+      "Remove the link between a task and an event on both sides. Give taskId, eventId, or both; a missing side is " +
+        "found through the link.",
+      unlinkTaskEventInput,
+      async (input) => {
+        let taskLink: TaskLink | null = null;
+        let eventLink: EventLink | null = null;
+        if (input.taskId) {
+          const tasklistId = await this.resolveTasklistId(input.tasklistId, input.account);
+          const task = await this.ensureTasks(input.account).tasks.get({ tasklist: tasklistId, task: input.taskId });
+          taskLink = { tasklistId, taskId: input.taskId };
+          eventLink = input.eventId
+            ? { calendarId: input.calendarId, eventId: input.eventId }
+            : readEventLink(task.data.notes);
+        } else if (input.eventId) {
+          const event = await this.ensureCalendar(input.account).events.get({
+            calendarId: input.calendarId,
+            eventId: input.eventId
+          });
+          eventLink = { calendarId: input.calendarId, eventId: input.eventId };
+          taskLink = readTaskLink(event.data);
+        } else {
+          throw new McpError(ErrorCode.InvalidParams, "Provide taskId or eventId");
+        }
+        if (!taskLink || !eventLink) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            input.taskId ? "Task is not linked to an event" : "Event is not linked to a task"
+          );
+        }
+
+        const guarded = await this.guardMutation({
+          tool: "unlink-task-event",
+          input,
+          requests: input.dryRun
+            ? [
+                ...(await this.planEventLinkRemoval(eventLink, input.account, taskLink.taskId)),
+                ...(await this.planTaskLinkRemoval(taskLink, input.account, eventLink.eventId))
+              ]
+            : []
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        const event = await this.clearEventTaskLink("unlink-task-event", eventLink, input.account, taskLink.taskId);
+        const task = await this.clearTaskEventLink("unlink-task-event", taskLink, input.account, eventLink.eventId);
+        return {
+          content: toJsonContent({ task: task ? mapTask(task) : null, event: event ? mapEvent(event) : null })
+        };
+      }
+    );
+
+    const createEventForTaskInput = z
+      .object({
+        account: accountSchema,
+        tasklistId: z.string().default("@default"),
+        taskId: z.string(),
+        calendarId: z.string().default("primary"),
+        summary: z.string().optional(),
+        start: z.string().optional(),
+        end: z.string().optional(),
+        durationMinutes: z.number().int().min(5).max(24 * 60).optional(),
+        timeZone: z.string().optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "create-event-for-task",
+      "Create an event for a task and link the two. Without start, an all-day event is created on the task's due date. " +
+        "Without end, the event lasts durationMinutes, the task's [est:...] estimate or " +
+        `${DEFAULT_LINKED_EVENT_MINUTES} minutes.`,
+      createEventForTaskInput,
+      async (input) => {
+        const effectiveTimeZone = resolveTimeZone(input.timeZone);
+        const tasklistId = await this.resolveTasklistId(input.tasklistId, input.account);
+        const response = await this.ensureTasks(input.account).tasks.get({ tasklist: tasklistId, task: input.taskId });
+        const task = response.data;
+
+        let start: calendar_v3.Schema$EventDateTime;
+        let end: calendar_v3.Schema$EventDateTime;
+        if (input.start === undefined) {
+          const due = formatTaskDue(task.due);
+          if (!due) {
+            throw new McpError(ErrorCode.InvalidParams, "Task has no due date; provide start");
+          }
+          start = { date: due };
+          end = { date: formatIsoDate(DateTime.fromISO(due).plus({ days: 1 })) };
+        } else {
+          const startAt = await this.parseDateTimeInput("start", input.start, effectiveTimeZone, input.account);
+          const endAt =
+            input.end !== undefined
+              ? await this.parseDateTimeInput("end", input.end, effectiveTimeZone, input.account)
+              : startAt.plus({
+                  minutes: input.durationMinutes ?? parseEstimateMinutes(task.notes) ?? DEFAULT_LINKED_EVENT_MINUTES
+                });
+          if (endAt <= startAt) {
+            throw new McpError(ErrorCode.InvalidParams, "end must be after start");
+          }
+          start = { dateTime: formatIso(startAt), timeZone: effectiveTimeZone };
+          end = { dateTime: formatIso(endAt), timeZone: effectiveTimeZone };
+        }
+
+        const requestBody: calendar_v3.Schema$Event = {
+          summary: input.summary ?? task.title ?? "",
+          description: [withEventLink(task.notes, null), task.webViewLink].filter(Boolean).join("\n\n") || undefined,
+          start,
+          end
+        };
+        const guarded = await this.guardMutation({
+          tool: "create-event-for-task",
+          input,
+          requests: [{ method: "events.insert", params: { calendarId: input.calendarId }, requestBody }]
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        const created = await this.ensureCalendar(input.account).events.insert({
+          calendarId: input.calendarId,
+          requestBody
+        });
+        await this.recordEventChange(input.account, "create-event-for-task", input.calendarId, null, created.data);
+        const linked = await this.setTaskEventLink(
+          "create-event-for-task",
+          { tasklistId, taskId: input.taskId },
+          { calendarId: input.calendarId, eventId: created.data.id as string },
+          input.account
+        );
+        return { content: toJsonContent({ task: mapTask(linked.task), event: mapEvent(linked.event) }) };
+      }
+    );
+
+    const createTaskForEventInput = z
+      .object({
+        account: accountSchema,
+        calendarId: z.string().default("primary"),
+        eventId: z.string(),
+        tasklistId: z.string().default("@default"),
+        title: z.string().optional(),
+        notes: z.string().optional(),
+        due: z.string().optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "create-task-for-event",
+      "Create a task for an event and link the two. The task defaults to the event summary and is due on the event's start date.",
+      createTaskForEventInput,
+      async (input) => {
+        const event = (
+          await this.ensureCalendar(input.account).events.get({ calendarId: input.calendarId, eventId: input.eventId })
+        ).data;
+        const eventDate =
+          event.start?.date ??
+          (event.start?.dateTime ? formatIsoDate(DateTime.fromISO(event.start.dateTime, { setZone: true })) : undefined);
+        const due =
+          input.due !== undefined
+            ? await this.resolveTaskDate(input.due, "due", input.account)
+            : eventDate
+              ? toTaskDue(eventDate)
+              : undefined;
+
+        const tasklistId = await this.resolveTasklistId(input.tasklistId, input.account);
+        const requestBody: tasks_v1.Schema$Task = {
+          title: input.title ?? event.summary ?? "",
+          notes: [input.notes, event.htmlLink].filter(Boolean).join("\n\n") || undefined,
+          due
+        };
+        const guarded = await this.guardMutation({
+          tool: "create-task-for-event",
+          input,
+          requests: [{ method: "tasks.insert", params: { tasklist: tasklistId }, requestBody }]
+        });
+        if (guarded) {
+          return guarded;
+        }
+
+        const created = await this.ensureTasks(input.account).tasks.insert({ tasklist: tasklistId, requestBody });
+        await this.recordTaskChange(input.account, "create-task-for-event", tasklistId, null, created.data);
+        const linked = await this.setTaskEventLink(
+          "create-task-for-event",
+          { tasklistId, taskId: created.data.id as string },
+          { calendarId: input.calendarId, eventId: input.eventId },
+          input.account
+        );
+        return { content: toJsonContent({ task: mapTask(linked.task), event: mapEvent(linked.event) }) };
+      }
+    );
+  }
+
+  private registerBatchTool(): void {
+    const batchInput = z
+      .object({
+        account: accountSchema,
+        operations: z
+          .array(
+            z.object({
+              tool: z.enum(BATCH_TOOLS),
+              arguments: z.record(z.unknown()).default({})
+            })
+          )
+          .min(1)
+          .max(BATCH_MAX_OPERATIONS),
+        concurrency: z.number().int().min(1).max(BATCH_MAX_CONCURRENCY).default(4),
+        atomic: z.boolean().default(false)
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "batch",
+      `Run up to ${BATCH_MAX_OPERATIONS} event and task operations (${BATCH_TOOLS.join(", ")}) in one call. ` +
+        "Each operation gives a tool name and that tool's arguments; account defaults to the batch account. " +
+        "Operations start in order with up to concurrency running at once (use 1 when later operations depend on " +
+        "earlier ones). With atomic, a failure stops the batch and already-applied operations are reverted from " +
+        "snapshots taken before each change; changes to linked tasks or events are not reverted. dryRun previews " +
+        "every operation; with a confirmation policy the whole batch is confirmed once, except operations whose " +
+        "preview failed, which are confirmed on their own.",
+      batchInput,
+      async (input) => {
+        const resolveOperation = (index: number) => {
+          const operation = input.operations[index];
+          const run = this.toolRunners.get(operation.tool);
+          if (!run) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown tool ${operation.tool}`);
+          }
+          return { run, args: { account: input.account, ...operation.arguments } };
+        };
+
+        // Operations covered by the batch confirmation. One whose preview failed was never shown to the user, so it
+        // still goes through its own confirmation when it runs.
+        const preconfirmed = new Set<number>();
+        if (input.dryRun || getConfirmationPolicy() !== "off") {
+          const previews = await runBatch(
+            input.operations.length,
+            { concurrency: input.concurrency, atomic: false },
+            async (index) => {
+              const { run, args } = resolveOperation(index);
+              try {
+                const result = await run({ ...args, dryRun: true });
+                return { result: JSON.parse(result.content[0].text) as BatchPreviewOutput };
+              } catch (error) {
+                throw this.toMcpError(error, args);
+              }
+            }
+          );
+          const operations = previews.map((preview) => ({
+            index: preview.index,
+            tool: input.operations[preview.index].tool,
+            requests: preview.result?.requests,
+            confirmationReasons: preview.result?.confirmationReasons,
+            error: preview.error
+          }));
+          if (input.dryRun) {
+            return { content: toJsonContent({ dryRun: true, operations }) };
+          }
+
+          const reasons = new Set(operations.flatMap((operation) => operation.confirmationReasons ?? []));
+          const guarded = await this.guardMutation({ tool: "batch", input, requests: [], reasons: [...reasons] });
+          if (guarded) {
+            return guarded;
+          }
+          for (const preview of previews) {
+            if (!preview.error) {
+              preconfirmed.add(preview.index);
+            }
+          }
+        }
+
+        const options = { concurrency: input.concurrency, atomic: input.atomic };
+        const outcomes = await runBatch(input.operations.length, options, async (index) => {
+          const { run, args } = resolveOperation(index);
+          try {
+            let buildUndo: BatchUndoBuilder | undefined;
+            const result = await run(args, async (parsed) => {
+              if (preconfirmed.has(index)) {
+                this.preconfirmedInputs.add(parsed);
+              }
+              buildUndo = input.atomic ? await this.captureUndo(input.operations[index].tool, parsed) : undefined;
+            });
+            const output = JSON.parse(result.content[0].text) as BatchToolOutput;
+            if (this.withheldResults.has(result)) {
+              // Declined, waiting for its own confirmation or a dry run: nothing was changed.
+              return { result: output, notRun: "The operation was not run; see its result" };
+            }
+            return { result: output, undo: buildUndo?.(output) };
+          } catch (error) {
+            throw this.toMcpError(error, args);
+          }
+        });
+
+        const count = (status: string) => outcomes.filter((outcome) => outcome.status === status).length;
+        return {
+          content: toJsonContent({
+            atomic: input.atomic,
+            summary: {
+              succeeded: count("succeeded"),
+              failed: count("failed"),
+              skipped: count("skipped"),
+              rolledBack: count("rolledBack"),
+              rollbackFailed: count("rollbackFailed")
+            },
+            results: outcomes.map((outcome) => ({ ...outcome, tool: input.operations[outcome.index].tool }))
+          })
+        };
+      }
+    );
+  }
+
+  /**
+   * Snapshots what a batched operation is about to change and returns a function that builds its undo step from
+   * the operation's output.
+   */
+  private async captureUndo(
+    tool: BatchTool,
+    target: BatchTarget
+  ): Promise<BatchUndoBuilder> {
+    const calendarId = target.calendarId ?? "primary";
+    const tasklistId = target.tasklistId ?? "@default";
+    switch (tool) {
+      case "create-event":
+        return (output) => {
+          const eventId = output.event?.id;
+          return eventId
+            ? async () => {
+                await this.ensureCalendar(target.account).events.delete({ calendarId, eventId });
+              }
+            : undefined;
+        };
+      case "update-event":
+      case "delete-event":
+      case "update-event-instance":
+      case "delete-event-instance": {
+        const eventId = (target.eventId ?? target.instanceId) as string;
+        const before = (await this.ensureCalendar(target.account).events.get({ calendarId, eventId })).data;
+        return () => async () => {
+          await this.restoreEvent(target.account, calendarId, eventId, before);
+        };
+      }
+      case "create-task":
+        return (output) => {
+          const taskId = output.task?.id;
+          return taskId
+            ? async () => {
+                await this.ensureTasks(target.account).tasks.delete({ tasklist: tasklistId, task: taskId });
+              }
+            : undefined;
+        };
+      case "update-task":
+      case "complete-task":
+      case "delete-task": {
+        const taskId = target.taskId as string;
+        const before = (await this.ensureTasks(target.account).tasks.get({ tasklist: tasklistId, task: taskId })).data;
+        return () => async () => {
+          await this.restoreTask(target.account, tasklistId, taskId, before);
+        };
+      }
+    }
+  }
+
+  private registerJournalTools(): void {
+    const listRecentChangesInput = z.object({
+      account: accountSchema,
+      kind: z.enum(["event", "task"]).optional(),
+      resourceId: z.string().optional(),
+      limit: z.number().int().min(1).max(JOURNAL_MAX_LIMIT).default(JOURNAL_DEFAULT_LIMIT),
+      includeStates: z.boolean().optional()
+    });
+
+    this.registerTool(
+      "list-recent-changes",
+      "List the most recent changes made through this server's event and task tools, newest first, from the local " +
+        "journal. Pass a change id to undo-change to revert it. includeStates adds the before/after resource state.",
+      listRecentChangesInput,
+      async (input) => {
+        const entries = await this.journal.read();
+        const undoneBy = new Map(entries.filter((entry) => entry.undoOf).map((entry) => [entry.undoOf, entry.id]));
+        const changes = entries
+          .filter(
+            (entry) =>
+              (!input.account || entry.account === input.account) &&
+              (!input.kind || entry.kind === input.kind) &&
+              (!input.resourceId || entry.resourceId === input.resourceId)
+          )
+          .reverse()
+          .slice(0, input.limit)
+          .map((entry) => {
+            const state = entry.after ?? entry.before;
+            return {
+              id: entry.id,
+              timestamp: entry.timestamp,
+              account: entry.account,
+              tool: entry.tool,
+              kind: entry.kind,
+              action: entry.action,
+              ...(entry.kind === "event" ? { calendarId: entry.calendarId } : { tasklistId: entry.tasklistId }),
+              resourceId: entry.resourceId,
+              title: (state && ("summary" in state ? state.summary : "title" in state ? state.title : null)) ?? null,
+              undoOf: entry.undoOf ?? null,
+              undoneBy: undoneBy.get(entry.id) ?? null,
+              ...(input.includeStates ? { before: entry.before, after: entry.after } : {})
+            };
+          });
+        return { content: toJsonContent({ changes }) };
+      }
+    );
+
+    const undoChangeInput = z
+      .object({
+        changeId: z.string(),
+        force: z.boolean().optional(),
+        sendUpdates: z.enum(["all", "externalOnly", "none"]).optional()
+      })
+      .merge(mutationControlSchema);
+
+    this.registerTool(
+      "undo-change",
+      "Revert a change listed by list-recent-changes. Created items are deleted, updated items get their previous " +
+        "state back and deleted items are restored with the same fields (they keep their ID when Google still allows " +
+        "restoring them). Tasks also get their parent and position back. Refuses when the item changed again since, " +
+        "unless force is set.",
+      undoChangeInput,
+      async (input) => {
+        const entries = await this.journal.read();
+        const entry = entries.find((candidate) => candidate.id === input.changeId);
+        if (!entry) {
+          throw new McpError(ErrorCode.InvalidParams, `Unknown change ${input.changeId}`);
+        }
+        const undo = entries.find((candidate) => candidate.undoOf === entry.id);
+        if (undo && !input.force) {
+          throw new McpError(ErrorCode.InvalidParams, `Change ${entry.id} was already undone by ${undo.id}`);
+        }
+        this.resolveAccount(entry.account);
+
+        return entry.kind === "event" ? this.undoEventChange(entry, input) : this.undoTaskChange(entry, input);
+      }
+    );
+  }
+
+  private async undoEventChange(
+    entry: JournalEntry & { kind: "event" },
+    input: UndoChangeInput & { sendUpdates?: "all" | "externalOnly" | "none" }
+  ): Promise<ToolResult> {
+    const { force, sendUpdates } = input;
+    const calendar = this.ensureCalendar(entry.account);
+    const { calendarId, before, after } = entry;
+    const eventId = entry.resourceId as string;
+    const current = await this.findEvent({ calendarId, eventId }, entry.account);
+    if (after && !force) {
+      if (!current) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Event ${eventId} no longer exists; pass force to restore it anyway`
+        );
+      }
+      if (current.etag !== after.etag) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Event ${eventId} changed after this change; pass force to undo anyway`
+        );
+      }
+    }
+
+    const restorable = before ? toEventRestoreBody(before) : null;
+    const params = { calendarId, eventId, sendUpdates };
+    const guarded = await this.guardMutation({
+      tool: "undo-change",
+      input,
+      requests: restorable
+        ? [{ method: "events.update", params, requestBody: restorable, current }]
+        : current
+          ? [{ method: "events.delete", params, current }]
+          : [],
+      deletes: !restorable && current !== null,
+      sendUpdates,
+      recurring: Boolean(before?.recurrence?.length || current?.recurrence?.length)
+    });
+    if (guarded) {
+      return guarded;
+    }
+
+    if (!restorable) {
+      if (current) {
+        await calendar.events.delete(params);
+      }
+      const change = await this.recordEventChange(entry.account, "undo-change", calendarId, current, null, entry.id);
+      return { content: toJsonContent({ undone: entry.id, change: change?.id ?? null, event: null }) };
+    }
 
-    const deleteTaskInput = z.object({
-      tasklistId: z.string().default("@default"),
-      taskId: z.string()
+    const { event: restored, sameId } = await this.restoreEvent(
+      entry.account,
+      calendarId,
+      eventId,
+      before as calendar_v3.Schema$Event,
+      sendUpdates
+    );
+    const change = await this.recordEventChange(entry.account, "undo-change", calendarId, current, restored, entry.id);
+    return {
+      content: toJsonContent({
+        undone: entry.id,
+        change: change?.id ?? null,
+        event: mapEvent(restored),
+        restoredWithSameId: sameId
+      })
+    };
+  }
+
+  private async undoTaskChange(entry: JournalEntry & { kind: "task" }, input: UndoChangeInput): Promise<ToolResult> {
+    const { force } = input;
+    const tasks = this.ensureTasks(entry.account);
+    const { tasklistId, before, after } = entry;
+    const taskId = entry.resourceId as string;
+    const current = await this.findTask({ tasklistId, taskId }, entry.account);
+    if (after && !force) {
+      if (!current) {
+        throw new McpError(ErrorCode.InvalidParams, `Task ${taskId} no longer exists; pass force to restore it anyway`);
+      }
+      if (current.etag !== after.etag) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Task ${taskId} changed after this change; pass force to undo anyway`
+        );
+      }
+    }
+
+    const params = { tasklist: tasklistId, task: taskId };
+    const restorable = before ? toTaskRestoreBody(before) : null;
+    const placement =
+      before && current ? await this.findRestorePlacement(entry.account, tasklistId, current, before) : null;
+    const requests: MutationRequest[] = restorable
+      ? [{ method: "tasks.patch", params, requestBody: restorable, current }]
+      : current
+        ? [{ method: "tasks.delete", params, current }]
+        : [];
+    if (placement) {
+      requests.push({ method: "tasks.move", params: { ...params, ...placement } });
+    }
+    const guarded = await this.guardMutation({
+      tool: "undo-change",
+      input,
+      requests,
+      deletes: !restorable && current !== null
     });
+    if (guarded) {
+      return guarded;
+    }
 
-    this.registerTool(
-      "delete-task",
-      "Delete a task from the specified task list.",
-      deleteTaskInput,
-      async (input) => {
-        const tasks = this.ensureTasks();
-        await tasks.tasks.delete({
-          tasklist: input.tasklistId,
-          task: input.taskId
-        });
-        return { content: toJsonContent({ success: true }) };
+    if (!before) {
+      if (current) {
+        await tasks.tasks.delete(params);
+      }
+      const change = await this.recordTaskChange(entry.account, "undo-change", tasklistId, current, null, entry.id);
+      return { content: toJsonContent({ undone: entry.id, change: change?.id ?? null, task: null }) };
+    }
+
+    const { task: restored, sameId } = await this.restoreTask(entry.account, tasklistId, taskId, before);
+    const change = await this.recordTaskChange(entry.account, "undo-change", tasklistId, current, restored, entry.id);
+    return {
+      content: toJsonContent({
+        undone: entry.id,
+        change: change?.id ?? null,
+        task: mapTask(restored),
+        restoredWithSameId: sameId
+      })
+    };
+  }
+
+  private registerResources(): void {
+    this.server.registerResource(
+      "calendars",
+      CALENDARS_RESOURCE_URI,
+      { description: "Calendars available to the default account.", mimeType: "application/json" },
+      async (uri) => toResourceResult(uri.href, await this.loadResource(uri.href))
+    );
+
+    this.server.registerResource(
+      "calendar-agenda",
+      new ResourceTemplate("calendar://{calendarId}/events/{date}", {
+        list: async () => {
+          const calendars = await this.fetchCalendarEntries();
+          return {
+            resources: calendars.map((entry) => ({
+              uri: `calendar://${encodeURIComponent(entry.id ?? "")}/events/today`,
+              name: `${entry.summary ?? entry.id} (today)`,
+              mimeType: "application/json"
+            }))
+          };
+        },
+        complete: {
+          calendarId: async (value) => {
+            const calendars = await this.fetchCalendarEntries();
+            return ["primary", ...calendars.map((entry) => entry.id ?? "")].filter(
+              (id) => id && id.toLowerCase().startsWith(value.toLowerCase())
+            );
+          },
+          date: (value) => ["today", "tomorrow", "yesterday"].filter((keyword) => keyword.startsWith(value.toLowerCase()))
+        }
+      }),
+      {
+        description: "Events of a calendar on one day. date accepts YYYY-MM-DD or relative values such as today.",
+        mimeType: "application/json"
+      },
+      async (uri) => toResourceResult(uri.href, await this.loadResource(uri.href))
+    );
+
+    this.server.registerResource(
+      "tasklists",
+      TASKLISTS_RESOURCE_URI,
+      { description: "Google Task lists of the default account.", mimeType: "application/json" },
+      async (uri) => toResourceResult(uri.href, await this.loadResource(uri.href))
+    );
+
+    this.server.registerResource(
+      "tasklist",
+      new ResourceTemplate("tasks://{tasklistId}", {
+        list: async () => {
+          const tasklists = await this.fetchTasklistEntries();
+          return {
+            resources: tasklists.map((entry) => ({
+              uri: `tasks://${encodeURIComponent(entry.id ?? "")}`,
+              name: entry.title ?? entry.id ?? "Task list",
+              mimeType: "application/json"
+            }))
+          };
+        },
+        complete: {
+          tasklistId: async (value) => {
+            const tasklists = await this.fetchTasklistEntries();
+            return ["@default", ...tasklists.map((entry) => entry.id ?? "")].filter(
+              (id) => id && id.toLowerCase().startsWith(value.toLowerCase())
+            );
+          }
+        }
+      }),
+      { description: "Open and completed tasks of a task list.", mimeType: "application/json" },
+      async (uri) => toResourceResult(uri.href, await this.loadResource(uri.href))
+    );
+
+    this.server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    this.server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.resourceSubscriptions.set(uri, hashContent(await this.loadResource(uri)));
+      this.startResourcePolling();
+      return {};
+    });
+
+    this.server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      if (this.resourceSubscriptions.size === 0) {
+        this.stopResourcePolling();
+      }
+      return {};
+    });
+
+    this.server.server.onclose = () => {
+      this.resourceSubscriptions.clear();
+      this.stopResourcePolling();
+    };
+  }
+
+  private registerPrompts(): void {
+    const planningArgs = {
+      calendars: z.string().optional(),
+      tasklist: z.string().optional(),
+      timeZone: z.string().optional(),
+      account: z.string().optional()
+    };
+
+    this.server.registerPrompt(
+      "daily-briefing",
+      {
+        title: "Daily briefing",
+        description: "Summarize one day's events and open tasks. calendars is a comma-separated list of calendar IDs.",
+        argsSchema: { date: z.string().optional(), ...planningArgs }
+      },
+      async (args) => {
+        const timeZone = resolveTimeZone(args.timeZone);
+        const day = (await this.parseDateTimeInput("date", args.date ?? "today", timeZone, args.account)).startOf("day");
+        const calendarIds = splitList(args.calendars, ["primary"]);
+        const events = await this.fetchPromptEvents(args.account, calendarIds, day, day.plus({ days: 1 }), timeZone);
+        const tasks = await this.fetchPromptTasks(args.account, args.tasklist ?? "@default");
+
+        return {
+          description: `Daily briefing for ${formatIsoDate(day)}`,
+          messages: [
+            promptMessage(
+              [
+                `Give me a concise briefing for ${day.toLocaleString(DateTime.DATE_HUGE)} (time zone ${timeZone}).`,
+                "List the schedule in chronological order, point out conflicts, back-to-back meetings and free gaps,",
+                "then highlight the tasks that are due today or overdue and suggest when to work on them.",
+                "",
+                `Events:\n${JSON.stringify(events, null, 2)}`,
+                "",
+                `Open tasks:\n${JSON.stringify(tasks, null, 2)}`
+              ].join("\n")
+            )
+          ]
+        };
+      }
+    );
+
+    this.server.registerPrompt(
+      "weekly-review",
+      {
+        title: "Weekly review",
+        description: "Review a week (Monday to Sunday) and plan it from the open tasks. date can be any day in that week.",
+        argsSchema: { date: z.string().optional(), ...planningArgs }
+      },
+      async (args) => {
+        const timeZone = resolveTimeZone(args.timeZone);
+        const weekStart = (await this.parseDateTimeInput("date", args.date ?? "today", timeZone, args.account)).startOf("week");
+        const weekEnd = weekStart.plus({ weeks: 1 });
+        const calendarIds = splitList(args.calendars, ["primary"]);
+        const events = await this.fetchPromptEvents(args.account, calendarIds, weekStart, weekEnd, timeZone);
+        const tasks = await this.fetchPromptTasks(args.account, args.tasklist ?? "@default");
+
+        return {
+          description: `Weekly review for the week of ${formatIsoDate(weekStart)}`,
+          messages: [
+            promptMessage(
+              [
+                `Help me review and plan the week of ${formatIsoDate(weekStart)} to ${formatIsoDate(weekEnd.minus({ days: 1 }))} (time zone ${timeZone}).`,
+                "Summarize the commitments per day, estimate how much focus time is left,",
+                "and propose which open tasks to tackle on which day, starting with overdue and soon-due ones.",
+                "",
+                `Events:\n${JSON.stringify(events, null, 2)}`,
+                "",
+                `Open tasks:\n${JSON.stringify(tasks, null, 2)}`
+              ].join("\n")
+            )
+          ]
+        };
+      }
+    );
+
+    this.server.registerPrompt(
+      "meeting-prep",
+      {
+        title: "Meeting prep",
+        description: "Prepare for a meeting. Without eventId, the next upcoming event on the calendar is used.",
+        argsSchema: {
+          calendar: z.string().optional(),
+          eventId: z.string().optional(),
+          tasklist: z.string().optional(),
+          timeZone: z.string().optional(),
+          account: z.string().optional()
+        }
+      },
+      async (args) => {
+        const timeZone = resolveTimeZone(args.timeZone);
+        const calendarId = args.calendar ?? "primary";
+        const calendar = this.ensureCalendar(args.account);
+
+        let event: calendar_v3.Schema$Event | undefined;
+        if (args.eventId) {
+          event = (await calendar.events.get({ calendarId, eventId: args.eventId, timeZone })).data;
+        } else {
+          const now = DateTime.now().setZone(timeZone);
+          const response = await calendar.events.list({
+            calendarId,
+            timeMin: formatIso(now),
+            timeMax: formatIso(now.plus({ days: MEETING_PREP_LOOKAHEAD_DAYS })),
+            singleEvents: true,
+            orderBy: "startTime",
+            maxResults: 10,
+            timeZone
+          });
+          event = (response.data.items ?? []).find((item) => item.start?.dateTime && item.transparency !== "transparent");
+        }
+
+        if (!event) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `No upcoming meeting found on ${calendarId} in the next ${MEETING_PREP_LOOKAHEAD_DAYS} days`
+          );
+        }
+
+        const tasks = await this.fetchPromptTasks(args.account, args.tasklist ?? "@default");
+        const eventStart = event.start?.dateTime ?? event.start?.date;
+        const relatedPast: calendar_v3.Schema$Event[] = [];
+        if (event.summary && eventStart) {
+          // Results come oldest first, so page through a bounded window and keep the most recent matches.
+          const until = DateTime.fromISO(eventStart, { zone: timeZone });
+          let pageToken: string | undefined;
+          do {
+            const response = await calendar.events.list({
+              calendarId,
+              q: event.summary,
+              timeMin: formatIso(until.minus({ days: MEETING_PREP_HISTORY_DAYS })),
+              timeMax: formatIso(until),
+              singleEvents: true,
+              orderBy: "startTime",
+              maxResults: 250,
+              pageToken,
+              timeZone
+            });
+            relatedPast.push(...(response.data.items ?? []));
+            relatedPast.splice(0, Math.max(0, relatedPast.length - MEETING_PREP_HISTORY_COUNT));
+            pageToken = response.data.nextPageToken ?? undefined;
+          } while (pageToken);
+        }
+
+        return {
+          description: `Meeting prep for ${event.summary ?? event.id}`,
+          messages: [
+            promptMessage(
+              [
+                `Prepare me for the meeting below (time zone ${timeZone}).`,
+                "Summarize its purpose, attendees and logistics, list what I should review or bring,",
+                "suggest talking points, and call out any open tasks that relate to it.",
+                "",
+                `Meeting:\n${JSON.stringify(mapEvent(event), null, 2)}`,
+                "",
+                `Earlier events with the same title:\n${JSON.stringify(relatedPast.map(mapEvent), null, 2)}`,
+                "",
+                `Open tasks:\n${JSON.stringify(tasks, null, 2)}`
+              ].join("\n")
+            )
+          ]
+        };
+      }
+    );
+  }
+
+  private async fetchPromptEvents(
+    account: string | undefined,
+    calendarIds: string[],
+    start: DateTime,
+    end: DateTime,
+    timeZone: string
+  ) {
+    const calendar = this.ensureCalendar(account);
+    const events = [] as Array<ReturnType<typeof mapEvent> & { calendarId: string }>;
+    for (const calendarId of calendarIds) {
+      const response = await calendar.events.list({
+        calendarId,
+        timeMin: formatIso(start),
+        timeMax: formatIso(end),
+        singleEvents: true,
+        orderBy: "startTime",
+        maxResults: PROMPT_MAX_EVENTS,
+        timeZone
+      });
+      events.push(...(response.data.items ?? []).map((event) => ({ calendarId, ...mapEvent(event) })));
+    }
+    return events;
+  }
+
+  private async fetchPromptTasks(account: string | undefined, tasklistId: string) {
+    const response = await this.ensureTasks(account).tasks.list({
+      tasklist: tasklistId,
+      showCompleted: false,
+      maxResults: PROMPT_MAX_TASKS
+    });
+    return (response.data.items ?? []).map(mapTask);
+  }
+
+  /** Maps task IDs to the events in the range that link back to them through extendedProperties.private. */
+  private async fetchTaskLinkedEvents(
+    calendarId: string,
+    range: TimeRange,
+    account?: string
+  ): Promise<Map<string, calendar_v3.Schema$Event>> {
+    const linked = new Map<string, calendar_v3.Schema$Event>();
+    let pageToken: string | undefined;
+    do {
+      const response = await this.ensureCalendar(account).events.list({
+        calendarId,
+        timeMin: range.start.toUTC().toISO() ?? undefined,
+        timeMax: range.end.toUTC().toISO() ?? undefined,
+        singleEvents: true,
+        maxResults: 2500,
+        pageToken
+      });
+      for (const event of response.data.items ?? []) {
+        const taskId = readTaskLink(event)?.taskId;
+        if (taskId && event.status !== "cancelled" && !linked.has(taskId)) {
+          linked.set(taskId, event);
+        }
+      }
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+    return linked;
+  }
+
+  private async resolveTasklistId(tasklistId: string, account?: string): Promise<string> {
+    if (tasklistId !== "@default") {
+      return tasklistId;
+    }
+    const response = await this.ensureTasks(account).tasklists.get({ tasklist: tasklistId });
+    return response.data.id ?? tasklistId;
+  }
+
+  /** Fetches the event a link points at, or null when it no longer exists. */
+  private async findEvent(link: EventLink, account?: string): Promise<calendar_v3.Schema$Event | null> {
+    try {
+      const response = await this.ensureCalendar(account).events.get({
+        calendarId: link.calendarId,
+        eventId: link.eventId
+      });
+      return response.data.status === "cancelled" ? null : response.data;
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (status === 404 || status === 410) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Fetches the task a link points at, or null when it no longer exists. */
+  private async findTask(link: TaskLink, account?: string): Promise<tasks_v1.Schema$Task | null> {
+    try {
+      const response = await this.ensureTasks(account).tasks.get({ tasklist: link.tasklistId, task: link.taskId });
+      return response.data.deleted ? null : response.data;
+    } catch (error) {
+      if (getErrorStatus(error) === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Puts an event back into an earlier state under its ID; updating a deleted (cancelled) event restores it. Only
+   * when Google no longer has the event at all is it re-created with a new ID.
+   */
+  private async restoreEvent(
+    account: string | undefined,
+    calendarId: string,
+    eventId: string,
+    before: calendar_v3.Schema$Event,
+    sendUpdates?: "all" | "externalOnly" | "none"
+  ): Promise<{ event: calendar_v3.Schema$Event; sameId: boolean }> {
+    const calendar = this.ensureCalendar(account);
+    const requestBody = toEventRestoreBody(before);
+    try {
+      const updated = await calendar.events.update({ calendarId, eventId, sendUpdates, requestBody });
+      return { event: updated.data, sameId: true };
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (status !== 404 && status !== 410) {
+        throw error;
+      }
+    }
+    const created = await calendar.events.insert({
+      calendarId,
+      requestBody: { ...requestBody, id: undefined, iCalUID: undefined, recurringEventId: undefined },
+      sendUpdates
+    });
+    return { event: created.data, sameId: false };
+  }
+
+  /**
+   * Puts a task back into an earlier state under its ID, including its parent and place among its siblings;
+   * patching a deleted task with `deleted: false` restores it. Only when Google no longer has the task at all is it
+   * re-created with a new ID, under its parent if that still exists.
+   */
+  private async restoreTask(
+    account: string | undefined,
+    tasklistId: string,
+    taskId: string,
+    before: tasks_v1.Schema$Task
+  ): Promise<{ task: tasks_v1.Schema$Task; sameId: boolean }> {
+    const tasks = this.ensureTasks(account);
+    const requestBody = toTaskRestoreBody(before);
+    try {
+      const patched = await tasks.tasks.patch({ tasklist: tasklistId, task: taskId, requestBody });
+      const placement = await this.findRestorePlacement(account, tasklistId, patched.data, before);
+      if (!placement) {
+        return { task: patched.data, sameId: true };
+      }
+      const moved = await tasks.tasks.move({ tasklist: tasklistId, task: taskId, ...placement });
+      return { task: moved.data, sameId: true };
+    } catch (error) {
+      if (getErrorStatus(error) !== 404) {
+        throw error;
+      }
+    }
+    const parent =
+      before.parent && (await this.findTask({ tasklistId, taskId: before.parent }, account))
+        ? before.parent
+        : undefined;
+    const created = await tasks.tasks.insert({
+      tasklist: tasklistId,
+      parent,
+      requestBody: { ...requestBody, deleted: undefined }
+    });
+    return { task: created.data, sameId: false };
+  }
+
+  /**
+   * The tasks.move placement that puts a task back where it was in `before`: under its old parent (or at the top
+   * level if that parent is gone), after the sibling now sorted just before its old position. Null when the task
+   * is still in place.
+   */
+  private async findRestorePlacement(
+    account: string | undefined,
+    tasklistId: string,
+    current: tasks_v1.Schema$Task,
+    before: tasks_v1.Schema$Task
+  ): Promise<{ parent?: string; previous?: string } | null> {
+    if ((current.parent ?? null) === (before.parent ?? null) && current.position === before.position) {
+      return null;
+    }
+    const items = await this.fetchAllTasks(account, tasklistId);
+    const parent = before.parent && items.some((task) => task.id === before.parent) ? before.parent : undefined;
+    const earlierSiblings = items
+      .filter(
+        (task) =>
+          task.id !== current.id &&
+          (task.parent ?? undefined) === parent &&
+          (task.position ?? "") < (before.position ?? "")
+      )
+      .sort(byPosition);
+    return { parent, previous: earlierSiblings[earlierSiblings.length - 1]?.id ?? undefined };
+  }
+
+  /**
+   * Handles dryRun and the confirmation policy for a mutation. Returns the result to send instead of running the
+   * mutation, or null when it may go ahead.
+   */
+  private async guardMutation(plan: MutationPlan): Promise<ToolResult | null> {
+    const withhold = (data: Record<string, unknown>) => {
+      const result = { content: toJsonContent(data) };
+      this.withheldResults.add(result);
+      return result;
+    };
+    const reasons = describeConfirmationReasons(plan);
+    if (plan.input.dryRun) {
+      return withhold({ dryRun: true, requests: previewRequests(plan.requests), confirmationReasons: reasons });
+    }
+
+    const policy = getConfirmationPolicy();
+    if (policy === "off" || reasons.length === 0 || this.preconfirmedInputs.has(plan.input)) {
+      return null;
+    }
+    const args = plan.input as Record<string, unknown>;
+    if (plan.input.confirmToken) {
+      if (this.confirmationTokens.consume(plan.input.confirmToken, plan.tool, args)) {
+        return null;
       }
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "confirmToken is invalid, expired or was issued for different arguments"
+      );
+    }
+
+    if (policy === "on" && this.server.server.getClientCapabilities()?.elicitation) {
+      const answer = await this.server.server.elicitInput({
+        message: `${plan.tool} ${reasons.join(", ")}. Proceed?`,
+        requestedSchema: {
+          type: "object",
+          properties: { confirm: { type: "boolean", title: "Proceed", description: `Run ${plan.tool}` } },
+          required: ["confirm"]
+        }
+      });
+      if (answer.action === "accept" && answer.content?.confirm === true) {
+        return null;
+      }
+      return withhold({ confirmed: false, action: answer.action, reasons });
+    }
+
+    return withhold({
+      confirmationRequired: true,
+      reasons,
+      confirmToken: this.confirmationTokens.issue(plan.tool, args),
+      requests: plan.requests.length > 0 ? previewRequests(plan.requests) : undefined
+    });
+  }
+
+  /** Journals an event change. A failed write is reported but does not fail the change, which already happened. */
+  private async recordEventChange(
+    account: string | undefined,
+    tool: string,
+    calendarId: string,
+    before: calendar_v3.Schema$Event | null,
+    after: calendar_v3.Schema$Event | null,
+    undoOf?: string
+  ): Promise<JournalEntry | null> {
+    const name = account ?? this.defaultAccount ?? DEFAULT_PROFILE;
+    return this.journal
+      .append({ kind: "event", account: name, tool, calendarId, before, after, undoOf })
+      .catch((error: unknown) => this.reportJournalFailure(error));
+  }
+
+  /** Journals a task change. A failed write is reported but does not fail the change, which already happened. */
+  private async recordTaskChange(
+    account: string | undefined,
+    tool: string,
+    tasklistId: string,
+    before: tasks_v1.Schema$Task | null,
+    after: tasks_v1.Schema$Task | null,
+    undoOf?: string
+  ): Promise<JournalEntry | null> {
+    const name = account ?? this.defaultAccount ?? DEFAULT_PROFILE;
+    return this.journal
+      .append({ kind: "task", account: name, tool, tasklistId, before, after, undoOf })
+      .catch((error: unknown) => this.reportJournalFailure(error));
+  }
+
+  private reportJournalFailure(error: unknown): null {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`Failed to write journal entry: ${message}\n`);
+    return null;
+  }
+
+  private async resolveEventLinks(account: string | undefined, tasks: MappedTask[]): Promise<MappedTask[]> {
+    const lookups = new Map<string, Promise<ReturnType<typeof summarizeLinkedEvent> | null>>();
+    for (const { linkedEvent } of tasks) {
+      const key = linkedEvent ? `${linkedEvent.calendarId}/${linkedEvent.eventId}` : undefined;
+      if (linkedEvent && key && !lookups.has(key)) {
+        lookups.set(
+          key,
+          this.findEvent(linkedEvent, account).then((event) => (event ? summarizeLinkedEvent(event) : null))
+        );
+      }
+    }
+    const resolved = new Map(
+      await Promise.all([...lookups].map(async ([key, lookup]) => [key, await lookup] as const))
+    );
+    return tasks.map((task) =>
+      task.linkedEvent
+        ? {
+            ...task,
+            linkedEvent: {
+              ...task.linkedEvent,
+              event: resolved.get(`${task.linkedEvent.calendarId}/${task.linkedEvent.eventId}`) ?? null
+            }
+          }
+        : task
+    );
+  }
+
+  /**
+   * Removes the task link from an event, journaled under `tool`. With onlyTaskId, the link is kept if it points at
+   * another task. Returns the event, or null when it no longer exists.
+   */
+  private async clearEventTaskLink(
+    tool: string,
+    link: EventLink,
+    account?: string,
+    onlyTaskId?: string
+  ): Promise<calendar_v3.Schema$Event | null> {
+    const event = await this.findEvent(link, account);
+    const requestBody = event ? eventWithoutTaskLink(event, onlyTaskId) : null;
+    if (!requestBody) {
+      return event;
+    }
+    const response = await this.ensureCalendar(account).events.update({
+      calendarId: link.calendarId,
+      eventId: link.eventId,
+      requestBody
+    });
+    await this.recordEventChange(account, tool, link.calendarId, event, response.data);
+    return response.data;
+  }
+
+  /**
+   * Removes the event marker from a task's notes and applies any extra changes, journaled under `tool`. With
+   * onlyEventId, a task linked to another event is left untouched. Returns the task, or null when it no longer exists.
+   */
+  private async clearTaskEventLink(
+    tool: string,
+    link: TaskLink,
+    account?: string,
+    onlyEventId?: string,
+    changes: tasks_v1.Schema$Task = {}
+  ): Promise<tasks_v1.Schema$Task | null> {
+    const task = await this.findTask(link, account);
+    if (!task) {
+      return null;
+    }
+    const requestBody = taskLinkRemovalPatch(task, onlyEventId, changes);
+    if (!requestBody) {
+      return task;
+    }
+    const response = await this.ensureTasks(account).tasks.patch({
+      tasklist: link.tasklistId,
+      task: link.taskId,
+      requestBody
+    });
+    await this.recordTaskChange(account, tool, link.tasklistId, task, response.data);
+    return response.data;
+  }
+
+  /** The writes setTaskEventLink would make, for dry runs. */
+  private async planTaskEventLink(
+    taskLink: TaskLink,
+    eventLink: EventLink,
+    account?: string
+  ): Promise<MutationRequest[]> {
+    const [task, event] = await Promise.all([
+      this.ensureTasks(account).tasks.get({ tasklist: taskLink.tasklistId, task: taskLink.taskId }),
+      this.ensureCalendar(account).events.get({ calendarId: eventLink.calendarId, eventId: eventLink.eventId })
+    ]);
+
+    const requests: MutationRequest[] = [];
+    const previousEvent = readEventLink(task.data.notes);
+    if (previousEvent && previousEvent.eventId !== eventLink.eventId) {
+      requests.push(...(await this.planEventLinkRemoval(previousEvent, account, taskLink.taskId)));
+    }
+    const previousTask = readTaskLink(event.data);
+    if (previousTask && previousTask.taskId !== taskLink.taskId) {
+      requests.push(...(await this.planTaskLinkRemoval(previousTask, account, eventLink.eventId)));
+    }
+    requests.push(
+      {
+        method: "events.patch",
+        params: { ...eventLink },
+        requestBody: {
+          extendedProperties: {
+            private: { ...event.data.extendedProperties?.private, ...toTaskLinkProperties(taskLink) }
+          }
+        },
+        current: event.data
+      },
+      {
+        method: "tasks.patch",
+        params: { tasklist: taskLink.tasklistId, task: taskLink.taskId },
+        requestBody: { notes: withEventLink(task.data.notes, eventLink) },
+        current: task.data
+      }
+    );
+    return requests;
+  }
+
+  /** The write clearEventTaskLink would make, for dry runs. */
+  private async planEventLinkRemoval(
+    link: EventLink,
+    account?: string,
+    onlyTaskId?: string
+  ): Promise<MutationRequest[]> {
+    const event = await this.findEvent(link, account);
+    const requestBody = event ? eventWithoutTaskLink(event, onlyTaskId) : null;
+    return requestBody ? [{ method: "events.update", params: { ...link }, requestBody, current: event }] : [];
+  }
+
+  /** The write clearTaskEventLink would make, for dry runs. */
+  private async planTaskLinkRemoval(
+    link: TaskLink,
+    account?: string,
+    onlyEventId?: string,
+    changes: tasks_v1.Schema$Task = {}
+  ): Promise<MutationRequest[]> {
+    const task = await this.findTask(link, account);
+    const requestBody = task ? taskLinkRemovalPatch(task, onlyEventId, changes) : null;
+    if (!requestBody) {
+      return [];
+    }
+    const params = { tasklist: link.tasklistId, task: link.taskId };
+    return [{ method: "tasks.patch", params, requestBody, current: task }];
+  }
+
+  /**
+   * Links a task and an event on both sides, dropping any link either of them had to something else. Every change
+   * is journaled under `tool`.
+   */
+  private async setTaskEventLink(
+    tool: string,
+    taskLink: TaskLink,
+    eventLink: EventLink,
+    account?: string
+  ): Promise<{ task: tasks_v1.Schema$Task; event: calendar_v3.Schema$Event }> {
+    const tasks = this.ensureTasks(account);
+    const calendar = this.ensureCalendar(account);
+    const [task, event] = await Promise.all([
+      tasks.tasks.get({ tasklist: taskLink.tasklistId, task: taskLink.taskId }),
+      calendar.events.get({ calendarId: eventLink.calendarId, eventId: eventLink.eventId })
+    ]);
+
+    const previousEvent = readEventLink(task.data.notes);
+    if (previousEvent && previousEvent.eventId !== eventLink.eventId) {
+      await this.clearEventTaskLink(tool, previousEvent, account, taskLink.taskId);
+    }
+    const previousTask = readTaskLink(event.data);
+    if (previousTask && previousTask.taskId !== taskLink.taskId) {
+      await this.clearTaskEventLink(tool, previousTask, account, eventLink.eventId);
+    }
+
+    const updatedEvent = await calendar.events.patch({
+      calendarId: eventLink.calendarId,
+      eventId: eventLink.eventId,
+      requestBody: {
+        extendedProperties: {
+          private: { ...event.data.extendedProperties?.private, ...toTaskLinkProperties(taskLink) }
+        }
+      }
+    });
+    await this.recordEventChange(account, tool, eventLink.calendarId, event.data, updatedEvent.data);
+    const updatedTask = await tasks.tasks.patch({
+      tasklist: taskLink.tasklistId,
+      task: taskLink.taskId,
+      requestBody: { notes: withEventLink(task.data.notes, eventLink) }
+    });
+    await this.recordTaskChange(account, tool, taskLink.tasklistId, task.data, updatedTask.data);
+    return { task: updatedTask.data, event: updatedEvent.data };
+  }
+
+  /** Fetches every page of a task list; filters default to all tasks, including completed and hidden ones. */
+  private async fetchAllTasks(
+    account: string | undefined,
+    tasklistId: string,
+    filters: Omit<tasks_v1.Params$Resource$Tasks$List, "tasklist" | "maxResults" | "pageToken"> = {
+      showCompleted: true,
+      showHidden: true
+    }
+  ): Promise<tasks_v1.Schema$Task[]> {
+    const items: tasks_v1.Schema$Task[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.ensureTasks(account).tasks.list({
+        ...filters,
+        tasklist: tasklistId,
+        maxResults: 100,
+        pageToken
+      });
+      items.push(...(response.data.items ?? []));
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+    return items;
+  }
+
+  private async fetchTasksAcrossLists(
+    account: string | undefined,
+    tasklistIds: string[] | undefined,
+    useCache: boolean
+  ): Promise<Array<{ tasklist: tasks_v1.Schema$TaskList; items: tasks_v1.Schema$Task[] }>> {
+    const requested =
+      tasklistIds && (await Promise.all(tasklistIds.map((tasklistId) => this.resolveTasklistId(tasklistId, account))));
+    const tasklists = (await this.fetchTasklistEntries(account)).filter(
+      (entry) => !requested || requested.includes(entry.id ?? "")
+    );
+    const unknown = requested?.filter((id) => !tasklists.some((entry) => entry.id === id)) ?? [];
+    if (unknown.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown task list IDs: ${unknown.join(", ")}`);
+    }
+
+    return Promise.all(
+      tasklists.map(async (tasklist) => {
+        const tasklistId = tasklist.id as string;
+        if (!useCache) {
+          return { tasklist, items: await this.fetchAllTasks(account, tasklistId) };
+        }
+        const cache = this.getSyncCache(account);
+        await cache.syncTasklist(this.ensureTasks(account), tasklistId);
+        return { tasklist, items: (await cache.readTasks(tasklistId))?.tasks ?? [] };
+      })
     );
   }
 
+  /**
+   * Copies a task and its subtasks into another list, keeping their order. Returns the new root task, a map from
+   * source IDs to copied IDs and the source/copy pairs, both in insertion order. Copies are removed again if any
+   * insert fails.
+   */
+  private async copyTaskTree(
+    account: string | undefined,
+    sourceTasklistId: string,
+    taskId: string,
+    destinationTasklistId: string,
+    placement: { parent?: string; previous?: string }
+  ): Promise<{
+    task: tasks_v1.Schema$Task;
+    idMap: Map<string, string>;
+    copies: { source: tasks_v1.Schema$Task; copy: tasks_v1.Schema$Task }[];
+  }> {
+    const tasks = this.ensureTasks(account);
+    const source = await this.fetchAllTasks(account, sourceTasklistId);
+    const root = source.find((task) => task.id === taskId);
+    if (!root) {
+      throw new McpError(ErrorCode.InvalidParams, `Task ${taskId} was not found in list ${sourceTasklistId}`);
+    }
+
+    const idMap = new Map<string, string>();
+    const copies: { source: tasks_v1.Schema$Task; copy: tasks_v1.Schema$Task }[] = [];
+    const insert = async (task: tasks_v1.Schema$Task, parent?: string, previous?: string) => {
+      const created = await tasks.tasks.insert({
+        tasklist: destinationTasklistId,
+        parent,
+        previous,
+        requestBody: {
+          title: task.title,
+          notes: task.notes,
+          due: task.due,
+          status: task.status,
+          completed: task.completed
+        }
+      });
+      idMap.set(task.id as string, created.data.id as string);
+      copies.push({ source: task, copy: created.data });
+      let previousChild: string | undefined;
+      for (const child of source.filter((item) => item.parent === task.id).sort(byPosition)) {
+        previousChild = (await insert(child, created.data.id as string, previousChild)).id as string;
+      }
+      return created.data;
+    };
+
+    try {
+      const task = await insert(root, placement.parent, placement.previous);
+      return { task, idMap, copies };
+    } catch (error) {
+      for (const copiedId of [...idMap.values()].reverse()) {
+        await tasks.tasks.delete({ tasklist: destinationTasklistId, task: copiedId }).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  private async fetchCalendarEntries(): Promise<calendar_v3.Schema$CalendarListEntry[]> {
+    const response = await this.ensureCalendar().calendarList.list();
+    return response.data.items ?? [];
+  }
+
+  private async fetchTasklistEntries(account?: string): Promise<tasks_v1.Schema$TaskList[]> {
+    const items: tasks_v1.Schema$TaskList[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.ensureTasks(account).tasklists.list({ maxResults: 100, pageToken });
+      items.push(...(response.data.items ?? []));
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+    return items;
+  }
+
+  private async loadResource(uri: string): Promise<unknown> {
+    if (uri === CALENDARS_RESOURCE_URI) {
+      const calendars = await this.fetchCalendarEntries();
+      return {
+        calendars: calendars.map((item) => ({
+          id: item.id,
+          summary: item.summary,
+          description: item.description ?? null,
+          timeZone: item.timeZone ?? null,
+          primary: Boolean(item.primary),
+          accessRole: item.accessRole ?? null
+        }))
+      };
+    }
+
+    if (uri === TASKLISTS_RESOURCE_URI) {
+      const tasklists = await this.fetchTasklistEntries();
+      return {
+        tasklists: tasklists.map(mapTasklist)
+      };
+    }
+
+    const agendaMatch = uri.match(AGENDA_RESOURCE_REGEX);
+    if (agendaMatch) {
+      const calendarId = decodeURIComponent(agendaMatch[1]);
+      const timeZone = getUserTimeZone();
+      const date = (await this.resolveDate(decodeURIComponent(agendaMatch[2]), {
+        timeZone,
+        preferDateOnly: true,
+        field: "date"
+      })) ?? "";
+      if (!DATE_ONLY_REGEX.test(date)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid date in resource URI: ${uri}`);
+      }
+      const day = DateTime.fromISO(date, { zone: timeZone });
+      const response = await this.ensureCalendar().events.list({
+        calendarId,
+        timeMin: formatIso(day),
+        timeMax: formatIso(day.plus({ days: 1 })),
+        singleEvents: true,
+        orderBy: "startTime",
+        maxResults: AGENDA_MAX_RESULTS,
+        timeZone
+      });
+      return { calendarId, date, timeZone, events: (response.data.items ?? []).map(mapEvent) };
+    }
+
+    const tasklistMatch = uri.match(TASKLIST_RESOURCE_REGEX);
+    if (tasklistMatch) {
+      const tasklistId = decodeURIComponent(tasklistMatch[1]);
+      const response = await this.ensureTasks().tasks.list({
+        tasklist: tasklistId,
+        showCompleted: true,
+        maxResults: 100
+      });
+      return { tasklistId, tasks: (response.data.items ?? []).map(mapTask) };
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  private startResourcePolling(): void {
+    if (this.resourcePollTimer) {
+      return;
+    }
+    this.resourcePollTimer = setInterval(() => {
+      void this.pollSubscribedResources();
+    }, getResourcePollIntervalMs());
+    this.resourcePollTimer.unref();
+  }
+
+  private stopResourcePolling(): void {
+    if (this.resourcePollTimer) {
+      clearInterval(this.resourcePollTimer);
+      this.resourcePollTimer = undefined;
+    }
+  }
+
+  private async pollSubscribedResources(): Promise<void> {
+    if (this.resourcePollInFlight) {
+      return;
+    }
+    this.resourcePollInFlight = true;
+    try {
+      for (const [uri, previousHash] of this.resourceSubscriptions) {
+        try {
+          const hash = hashContent(await this.loadResource(uri));
+          if (!this.resourceSubscriptions.has(uri) || hash === previousHash) {
+            continue;
+          }
+          this.resourceSubscriptions.set(uri, hash);
+          await this.server.server.sendResourceUpdated({ uri });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          process.stderr.write(`Failed to poll resource ${uri}: ${message}\n`);
+        }
+      }
+    } finally {
+      this.resourcePollInFlight = false;
+    }
+  }
+
   private registerTool<T extends ZodObject<any, any, any, any, any>>(
     name: string,
     description: string,
     schema: T,
     executor: (input: z.infer<T>) => Promise<ToolResult>
   ): void {
+    const run: ToolRunner = async (args, beforeRun) => {
+      const parsed = schema.parse(args ?? {});
+      await beforeRun?.(parsed);
+      return executor(parsed);
+    };
     this.server.registerTool(
       name,
       {
@@ -925,28 +4490,55 @@ export class GoogleCalendarTodoMcpServer {
       },
       async (args: unknown) => {
         try {
-          const parsed = schema.parse(args ?? {});
-          return await executor(parsed);
+          return await run(args);
         } catch (error) {
-          if (error instanceof McpError) {
-            throw error;
-          }
-          if (error instanceof ZodError) {
-            const message = error.issues.map((issue: ZodIssue) => issue.message).join("; ");
-            throw new McpError(ErrorCode.InvalidParams, message);
-          }
-          if (error && typeof error === "object" && "message" in error) {
-            throw new McpError(ErrorCode.InternalError, String((error as Error).message));
-          }
-          throw new McpError(ErrorCode.InternalError, "Unexpected error executing tool");
+          throw this.toMcpError(error, args);
         }
       }
     );
+    this.toolRunners.set(name, run);
+  }
+
+  private toMcpError(error: unknown, args: unknown): McpError {
+    if (error instanceof McpError) {
+      return error;
+    }
+    if (error instanceof ZodError) {
+      const message = error.issues.map((issue: ZodIssue) => issue.message).join("; ");
+      return new McpError(ErrorCode.InvalidParams, message);
+    }
+    if (isInvalidGrantError(error)) {
+      return new McpError(ErrorCode.InvalidRequest, this.describeInvalidGrant(args));
+    }
+    if (error && typeof error === "object" && "message" in error) {
+      return new McpError(ErrorCode.InternalError, String((error as Error).message));
+    }
+    return new McpError(ErrorCode.InternalError, "Unexpected error executing tool");
   }
 }
 
-export async function startServer(version: string): Promise<void> {
-  const server = new GoogleCalendarTodoMcpServer(version);
-  await server.initialize();
-  await server.start();
+export interface StartServerOptions {
+  http?: { host: string; port: number };
+}
+
+export async function startServer(version: string, options: StartServerOptions = {}): Promise<void> {
+  if (!options.http) {
+    const server = new GoogleCalendarTodoMcpServer(version);
+    await server.initialize();
+    await server.start();
+    return;
+  }
+
+  // Each HTTP session gets its own McpServer, but all of them share the authorized clients.
+  const authClients = await authorizeProfiles();
+  await startHttpServer({
+    ...options.http,
+    version,
+    authToken: getHttpAuthToken(),
+    connect: async (transport) => {
+      const server = new GoogleCalendarTodoMcpServer(version);
+      await server.initialize(authClients);
+      await server.connect(transport);
+    }
+  });
 }
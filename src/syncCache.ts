@@ -0,0 +1,455 @@
+import type { calendar_v3, tasks_v1 } from "googleapis";
+import { promises as fs } from "fs";
+import { DateTime } from "luxon";
+import os from "os";
+import path from "path";
+
+import { authorizeProfiles, getCalendarClient, getErrorStatus, getTasksClient } from "./googleClient.js";
+
+const CACHE_FORMAT_VERSION = 1;
+const FILE_MODE = 0o600;
+const EVENTS_PAGE_SIZE = 2500;
+const TASKS_PAGE_SIZE = 100;
+
+const DEFAULT_CACHE_DIR = path.join(os.homedir(), ".cache", "google-calendar-todo-mcp");
+
+interface CalendarCacheFile {
+  version: number;
+  calendarId: string;
+  syncToken: string | null;
+  lastSyncedAt: string | null;
+  events: Record<string, calendar_v3.Schema$Event>;
+}
+
+interface TasklistCacheFile {
+  version: number;
+  tasklistId: string;
+  updatedMin: string | null;
+  lastSyncedAt: string | null;
+  tasks: Record<string, tasks_v1.Schema$Task>;
+}
+
+export interface SyncResult {
+  id: string;
+  fullSync: boolean;
+  changed: number;
+  total: number;
+  lastSyncedAt: string | null;
+  stale: boolean;
+  error?: string;
+}
+
+export interface CachedEventQuery {
+  timeMin?: string;
+  timeMax?: string;
+  query?: string;
+  orderBy?: "startTime" | "updated";
+  showDeleted?: boolean;
+  maxResults?: number;
+  timeZone: string;
+  privateExtendedProperty?: string[];
+  sharedExtendedProperty?: string[];
+}
+
+export interface CachedTaskQuery {
+  showCompleted?: boolean;
+  showDeleted?: boolean;
+  showHidden?: boolean;
+  dueMin?: string;
+  dueMax?: string;
+  maxResults?: number;
+}
+
+export function getCacheDirectory(): string {
+  return process.env.GOOGLE_CALENDAR_MCP_CACHE_DIR ?? DEFAULT_CACHE_DIR;
+}
+
+export function isCacheEnabledByDefault(): boolean {
+  const value = process.env.GOOGLE_CALENDAR_MCP_USE_CACHE?.toLowerCase();
+  return value === "1" || value === "true" || value === "yes";
+}
+
+function isSyncTokenExpired(error: unknown): boolean {
+  return getErrorStatus(error) === 410;
+}
+
+function isNetworkError(error: unknown): boolean {
+  return Boolean(error) && typeof error === "object" && !(error as { response?: unknown }).response && getErrorStatus(error) === undefined;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT" || error instanceof SyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), { mode: FILE_MODE });
+  await fs.rename(tempPath, filePath);
+}
+
+function parseEventBoundary(value: calendar_v3.Schema$EventDateTime | undefined, timeZone: string): DateTime | null {
+  if (value?.dateTime) {
+    return DateTime.fromISO(value.dateTime);
+  }
+  if (value?.date) {
+    return DateTime.fromISO(value.date, { zone: value.timeZone ?? timeZone });
+  }
+  return null;
+}
+
+function matchesPropertyFilters(properties: Record<string, string> | undefined, filters: string[] | undefined): boolean {
+  if (!filters || filters.length === 0) {
+    return true;
+  }
+  return filters.every((filter) => {
+    const [key, value] = filter.split("=", 2);
+    return properties?.[key] === value;
+  });
+}
+
+function matchesQuery(event: calendar_v3.Schema$Event, query: string | undefined): boolean {
+  if (!query) {
+    return true;
+  }
+  const haystack = [
+    event.summary,
+    event.description,
+    event.location,
+    event.organizer?.email,
+    event.organizer?.displayName,
+    ...(event.attendees ?? []).flatMap((attendee) => [attendee.email, attendee.displayName])
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+}
+
+export function filterCachedEvents(
+  events: calendar_v3.Schema$Event[],
+  options: CachedEventQuery
+): calendar_v3.Schema$Event[] {
+  const timeMin = options.timeMin ? DateTime.fromISO(options.timeMin, { zone: options.timeZone }) : null;
+  const timeMax = options.timeMax ? DateTime.fromISO(options.timeMax, { zone: options.timeZone }) : null;
+
+  const filtered = events.filter((event) => {
+    if (!options.showDeleted && event.status === "cancelled") {
+      return false;
+    }
+    const start = parseEventBoundary(event.start, options.timeZone);
+    const end = parseEventBoundary(event.end, options.timeZone) ?? start;
+    if (timeMin && end && end <= timeMin) {
+      return false;
+    }
+    if (timeMax && start && start >= timeMax) {
+      return false;
+    }
+    return (
+      matchesQuery(event, options.query) &&
+      matchesPropertyFilters(event.extendedProperties?.private, options.privateExtendedProperty) &&
+      matchesPropertyFilters(event.extendedProperties?.shared, options.sharedExtendedProperty)
+    );
+  });
+
+  const sortKey = (event: calendar_v3.Schema$Event): number => {
+    if (options.orderBy === "updated") {
+      return event.updated ? Date.parse(event.updated) : 0;
+    }
+    return parseEventBoundary(event.start, options.timeZone)?.toMillis() ?? 0;
+  };
+  filtered.sort((a, b) => sortKey(a) - sortKey(b));
+
+  return options.maxResults ? filtered.slice(0, options.maxResults) : filtered;
+}
+
+export function filterCachedTasks(tasks: tasks_v1.Schema$Task[], options: CachedTaskQuery): tasks_v1.Schema$Task[] {
+  const dueMin = options.dueMin ? Date.parse(options.dueMin) : null;
+  const dueMax = options.dueMax ? Date.parse(options.dueMax) : null;
+
+  const filtered = tasks.filter((task) => {
+    if (task.deleted && !options.showDeleted) {
+      return false;
+    }
+    if (task.hidden && !options.showHidden) {
+      return false;
+    }
+    if (options.showCompleted === false && task.status === "completed") {
+      return false;
+    }
+    const due = task.due ? Date.parse(task.due) : null;
+    if (dueMin !== null && (due === null || due < dueMin)) {
+      return false;
+    }
+    if (dueMax !== null && (due === null || due >= dueMax)) {
+      return false;
+    }
+    return true;
+  });
+
+  filtered.sort((a, b) => (a.position ?? "").localeCompare(b.position ?? ""));
+  return options.maxResults ? filtered.slice(0, options.maxResults) : filtered;
+}
+
+export class SyncCache {
+  private readonly rootDir: string;
+
+  constructor(account: string, baseDir: string = getCacheDirectory()) {
+    this.rootDir = path.join(baseDir, account);
+  }
+
+  private calendarPath(calendarId: string): string {
+    return path.join(this.rootDir, "calendars", `${encodeURIComponent(calendarId)}.json`);
+  }
+
+  private tasklistPath(tasklistId: string): string {
+    return path.join(this.rootDir, "tasks", `${encodeURIComponent(tasklistId)}.json`);
+  }
+
+  async readEvents(calendarId: string): Promise<{ events: calendar_v3.Schema$Event[]; lastSyncedAt: string | null } | null> {
+    const cache = await readJsonFile<CalendarCacheFile>(this.calendarPath(calendarId));
+    if (!cache || cache.version !== CACHE_FORMAT_VERSION) {
+      return null;
+    }
+    return { events: Object.values(cache.events), lastSyncedAt: cache.lastSyncedAt };
+  }
+
+  async readTasks(tasklistId: string): Promise<{ tasks: tasks_v1.Schema$Task[]; lastSyncedAt: string | null } | null> {
+    const cache = await readJsonFile<TasklistCacheFile>(this.tasklistPath(tasklistId));
+    if (!cache || cache.version !== CACHE_FORMAT_VERSION) {
+      return null;
+    }
+    return { tasks: Object.values(cache.tasks), lastSyncedAt: cache.lastSyncedAt };
+  }
+
+  async syncCalendar(calendar: calendar_v3.Calendar, calendarId: string): Promise<SyncResult> {
+    const filePath = this.calendarPath(calendarId);
+    const existing = await readJsonFile<CalendarCacheFile>(filePath);
+    const usable = existing && existing.version === CACHE_FORMAT_VERSION && existing.syncToken ? existing : null;
+
+    try {
+      return await this.fetchCalendarChanges(calendar, calendarId, usable);
+    } catch (error) {
+      if (usable && isSyncTokenExpired(error)) {
+        return this.fetchCalendarChanges(calendar, calendarId, null);
+      }
+      if (existing && isNetworkError(error)) {
+        return {
+          id: calendarId,
+          fullSync: false,
+          changed: 0,
+          total: Object.keys(existing.events).length,
+          lastSyncedAt: existing.lastSyncedAt,
+          stale: true,
+          error: errorMessage(error)
+        };
+      }
+      throw error;
+    }
+  }
+
+  private async fetchCalendarChanges(
+    calendar: calendar_v3.Calendar,
+    calendarId: string,
+    existing: CalendarCacheFile | null
+  ): Promise<SyncResult> {
+    const events: Record<string, calendar_v3.Schema$Event> = existing ? { ...existing.events } : {};
+    const fullSync = !existing;
+    let changed = 0;
+    let pageToken: string | undefined;
+    let nextSyncToken: string | null = null;
+
+    do {
+      const response = await calendar.events.list({
+        calendarId,
+        singleEvents: true,
+        maxResults: EVENTS_PAGE_SIZE,
+        syncToken: existing?.syncToken ?? undefined,
+        pageToken
+      });
+
+      for (const event of response.data.items ?? []) {
+        if (!event.id) {
+          continue;
+        }
+        changed += 1;
+        if (event.status === "cancelled") {
+          delete events[event.id];
+        } else {
+          events[event.id] = event;
+        }
+      }
+
+      pageToken = response.data.nextPageToken ?? undefined;
+      nextSyncToken = response.data.nextSyncToken ?? nextSyncToken;
+    } while (pageToken);
+
+    const lastSyncedAt = new Date().toISOString();
+    await writeJsonFile(this.calendarPath(calendarId), {
+      version: CACHE_FORMAT_VERSION,
+      calendarId,
+      syncToken: nextSyncToken,
+      lastSyncedAt,
+      events
+    } satisfies CalendarCacheFile);
+
+    return { id: calendarId, fullSync, changed, total: Object.keys(events).length, lastSyncedAt, stale: false };
+  }
+
+  async syncTasklist(tasks: tasks_v1.Tasks, tasklistId: string): Promise<SyncResult> {
+    const filePath = this.tasklistPath(tasklistId);
+    const existing = await readJsonFile<TasklistCacheFile>(filePath);
+    const usable = existing && existing.version === CACHE_FORMAT_VERSION && existing.updatedMin ? existing : null;
+
+    try {
+      return await this.fetchTaskChanges(tasks, tasklistId, usable);
+    } catch (error) {
+      if (existing && isNetworkError(error)) {
+        return {
+          id: tasklistId,
+          fullSync: false,
+          changed: 0,
+          total: Object.keys(existing.tasks).length,
+          lastSyncedAt: existing.lastSyncedAt,
+          stale: true,
+          error: errorMessage(error)
+        };
+      }
+      throw error;
+    }
+  }
+
+  private async fetchTaskChanges(
+    tasks: tasks_v1.Tasks,
+    tasklistId: string,
+    existing: TasklistCacheFile | null
+  ): Promise<SyncResult> {
+    // The Tasks API has no sync tokens, so changes are fetched with updatedMin instead.
+    const startedAt = new Date().toISOString();
+    const items: Record<string, tasks_v1.Schema$Task> = existing ? { ...existing.tasks } : {};
+    let changed = 0;
+    let pageToken: string | undefined;
+
+    do {
+      const response = await tasks.tasks.list({
+        tasklist: tasklistId,
+        showCompleted: true,
+        showDeleted: true,
+        showHidden: true,
+        maxResults: TASKS_PAGE_SIZE,
+        updatedMin: existing?.updatedMin ?? undefined,
+        pageToken
+      });
+
+      for (const task of response.data.items ?? []) {
+        if (!task.id) {
+          continue;
+        }
+        changed += 1;
+        if (task.deleted) {
+          delete items[task.id];
+        } else {
+          items[task.id] = task;
+        }
+      }
+
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+
+    await writeJsonFile(this.tasklistPath(tasklistId), {
+      version: CACHE_FORMAT_VERSION,
+      tasklistId,
+      updatedMin: startedAt,
+      lastSyncedAt: startedAt,
+      tasks: items
+    } satisfies TasklistCacheFile);
+
+    return {
+      id: tasklistId,
+      fullSync: !existing,
+      changed,
+      total: Object.keys(items).length,
+      lastSyncedAt: startedAt,
+      stale: false
+    };
+  }
+}
+
+export interface AccountSyncReport {
+  account: string;
+  calendars: SyncResult[];
+  tasklists: SyncResult[];
+  errors: Array<{ id: string; error: string }>;
+}
+
+export async function syncAccounts(options: { calendarIds?: string[]; includeTasks?: boolean } = {}): Promise<AccountSyncReport[]> {
+  const reports: AccountSyncReport[] = [];
+
+  for (const [account, authClient] of await authorizeProfiles()) {
+    const calendar = getCalendarClient(authClient);
+    const tasks = getTasksClient(authClient);
+    const cache = new SyncCache(account);
+    const report: AccountSyncReport = { account, calendars: [], tasklists: [], errors: [] };
+
+    let calendarIds = options.calendarIds;
+    if (!calendarIds) {
+      // Tools default to the "primary" alias, which is cached apart from the primary calendar's own ID.
+      calendarIds = ["primary"];
+      let pageToken: string | undefined;
+      do {
+        const response = await calendar.calendarList.list({ pageToken });
+        for (const item of response.data.items ?? []) {
+          if (item.id) {
+            calendarIds.push(item.id);
+          }
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+    }
+
+    for (const calendarId of calendarIds) {
+      try {
+        report.calendars.push(await cache.syncCalendar(calendar, calendarId));
+      } catch (error) {
+        report.errors.push({ id: calendarId, error: errorMessage(error) });
+      }
+    }
+
+    if (options.includeTasks ?? true) {
+      let pageToken: string | undefined;
+      do {
+        const response = await tasks.tasklists.list({ maxResults: TASKS_PAGE_SIZE, pageToken });
+        for (const tasklist of response.data.items ?? []) {
+          if (!tasklist.id) {
+            continue;
+          }
+          try {
+            report.tasklists.push(await cache.syncTasklist(tasks, tasklist.id));
+          } catch (error) {
+            report.errors.push({ id: tasklist.id, error: errorMessage(error) });
+          }
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+    }
+
+    reports.push(report);
+  }
+
+  return reports;
+}
@@ -0,0 +1,88 @@
+import type { calendar_v3, tasks_v1 } from "googleapis";
+
+export const TASK_LINK_PROPERTY = "taskId";
+export const TASKLIST_LINK_PROPERTY = "tasklistId";
+
+const EVENT_MARKER_REGEX = /\[event:([^\]\s/]+)\/([^\]\s]+)\]/;
+const EVENT_MARKER_LINE_REGEX = /\n*\[event:[^\]\s/]+\/[^\]\s]+\]\n*/g;
+
+export interface TaskLink {
+  tasklistId: string;
+  taskId: string;
+}
+
+export interface EventLink {
+  calendarId: string;
+  eventId: string;
+}
+
+/** Reads the task an event points at from its private extended properties. */
+export function readTaskLink(event: calendar_v3.Schema$Event): TaskLink | null {
+  const properties = event.extendedProperties?.private;
+  const taskId = properties?.[TASK_LINK_PROPERTY];
+  const tasklistId = properties?.[TASKLIST_LINK_PROPERTY];
+  return taskId && tasklistId ? { tasklistId, taskId } : null;
+}
+
+export function toTaskLinkProperties(link: TaskLink): Record<string, string> {
+  return { [TASK_LINK_PROPERTY]: link.taskId, [TASKLIST_LINK_PROPERTY]: link.tasklistId };
+}
+
+/** Returns the private extended properties of an event with the task link keys removed. */
+export function withoutTaskLinkProperties(event: calendar_v3.Schema$Event): Record<string, string> {
+  const rest = { ...(event.extendedProperties?.private ?? {}) };
+  delete rest[TASK_LINK_PROPERTY];
+  delete rest[TASKLIST_LINK_PROPERTY];
+  return rest;
+}
+
+/** The full event with its task link removed, or null when it is not linked (to onlyTaskId, when given). */
+export function eventWithoutTaskLink(
+  event: calendar_v3.Schema$Event,
+  onlyTaskId?: string
+): calendar_v3.Schema$Event | null {
+  const current = readTaskLink(event);
+  if (!current || (onlyTaskId && current.taskId !== onlyTaskId)) {
+    return null;
+  }
+  return { ...event, extendedProperties: { ...event.extendedProperties, private: withoutTaskLinkProperties(event) } };
+}
+
+export function formatEventMarker(link: EventLink): string {
+  return `[event:${link.calendarId}/${link.eventId}]`;
+}
+
+/** Reads the `[event:<calendarId>/<eventId>]` marker from task notes. */
+export function readEventLink(notes: string | null | undefined): EventLink | null {
+  const match = notes?.match(EVENT_MARKER_REGEX);
+  return match ? { calendarId: match[1], eventId: match[2] } : null;
+}
+
+/** Replaces the event marker in task notes, or removes it when link is null. Other notes are kept as they are. */
+export function withEventLink(notes: string | null | undefined, link: EventLink | null): string {
+  const rest = (notes ?? "").replace(EVENT_MARKER_LINE_REGEX, "\n\n").trim();
+  if (!link) {
+    return rest;
+  }
+  return rest ? `${rest}\n\n${formatEventMarker(link)}` : formatEventMarker(link);
+}
+
+/**
+ * The patch that removes the event marker from a task's notes along with any extra changes, or null when there is
+ * nothing to change. A task linked to an event other than onlyEventId is left alone.
+ */
+export function taskLinkRemovalPatch(
+  task: tasks_v1.Schema$Task,
+  onlyEventId?: string,
+  changes: tasks_v1.Schema$Task = {}
+): tasks_v1.Schema$Task | null {
+  const current = readEventLink(task.notes);
+  if (current && onlyEventId && current.eventId !== onlyEventId) {
+    return null;
+  }
+  const patch: tasks_v1.Schema$Task = { ...changes };
+  if (current) {
+    patch.notes = withEventLink(task.notes, null);
+  }
+  return Object.keys(patch).length > 0 ? patch : null;
+}
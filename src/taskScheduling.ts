@@ -0,0 +1,118 @@
+import { DateTime } from "luxon";
+
+import { TimeRange } from "./freeBusy.js";
+
+const ESTIMATE_TAG_REGEX = /\[est:\s*([^\]]+)\]/i;
+const ESTIMATE_PART_REGEX = /(\d+(?:\.\d+)?)\s*(hours?|hrs|hr|h|minutes?|mins|min|m)?/gi;
+
+export interface SchedulableTask {
+  id: string;
+  /** Due date as YYYY-MM-DD, or null for undated tasks. */
+  due: string | null;
+  durationMinutes: number;
+}
+
+export interface TaskBlockOptions {
+  timeZone: string;
+  alignMinutes: number;
+  bufferMinutes: number;
+}
+
+export interface TaskBlock extends TimeRange {
+  id: string;
+  /** True when the block ends after the task's due date. */
+  afterDue: boolean;
+}
+
+export interface TaskBlockPlan {
+  blocks: TaskBlock[];
+  unscheduled: string[];
+}
+
+/**
+ * Reads a duration estimate such as `[est:45m]`, `[est:1.5h]` or `[est:1h30m]` from task notes.
+ * A bare number is taken as minutes. Returns undefined when no usable tag is present.
+ */
+export function parseEstimateMinutes(notes: string | null | undefined): number | undefined {
+  const tag = notes?.match(ESTIMATE_TAG_REGEX);
+  if (!tag) {
+    return undefined;
+  }
+  const body = tag[1].trim();
+  let minutes = 0;
+  let consumed = "";
+  for (const part of body.matchAll(ESTIMATE_PART_REGEX)) {
+    const amount = parseFloat(part[1]);
+    minutes += (part[2] ?? "m").toLowerCase().startsWith("h") ? amount * 60 : amount;
+    consumed += part[0];
+  }
+  if (consumed.replace(/\s+/g, "") !== body.replace(/\s+/g, "")) {
+    return undefined;
+  }
+  const rounded = Math.round(minutes);
+  return rounded > 0 ? rounded : undefined;
+}
+
+/** Orders tasks by due date, undated tasks last; ties keep their input order. */
+export function sortByDue<T extends { due: string | null }>(tasks: T[]): T[] {
+  return tasks
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => {
+      if (a.task.due !== b.task.due) {
+        if (!a.task.due) {
+          return 1;
+        }
+        if (!b.task.due) {
+          return -1;
+        }
+        return a.task.due < b.task.due ? -1 : 1;
+      }
+      return a.index - b.index;
+    })
+    .map(({ task }) => task);
+}
+
+function alignUp(value: DateTime, alignMinutes: number): DateTime {
+  const startOfDay = value.startOf("day");
+  const minutes = Math.ceil(value.diff(startOfDay, "minutes").minutes / alignMinutes) * alignMinutes;
+  return startOfDay.plus({ minutes });
+}
+
+/**
+ * Places each task, in due-date order, at the earliest free slot that fits it.
+ * Slots are consumed as tasks are placed, so blocks never overlap; a task that fits nowhere is left unscheduled.
+ */
+export function planTaskBlocks(freeSlots: TimeRange[], tasks: SchedulableTask[], options: TaskBlockOptions): TaskBlockPlan {
+  const slots = freeSlots.map((slot) => ({ start: slot.start.setZone(options.timeZone), end: slot.end.setZone(options.timeZone) }));
+  const blocks: TaskBlock[] = [];
+  const unscheduled: string[] = [];
+
+  for (const task of sortByDue(tasks)) {
+    let placed = false;
+    for (let index = 0; index < slots.length; index += 1) {
+      const slot = slots[index];
+      const start = alignUp(slot.start, options.alignMinutes);
+      const end = start.plus({ minutes: task.durationMinutes });
+      if (end > slot.end) {
+        continue;
+      }
+
+      const dueEnd = task.due ? DateTime.fromISO(task.due, { zone: options.timeZone }).plus({ days: 1 }) : undefined;
+      blocks.push({ id: task.id, start, end, afterDue: dueEnd !== undefined && end > dueEnd });
+
+      const rest = end.plus({ minutes: options.bufferMinutes });
+      if (rest < slot.end) {
+        slots[index] = { start: rest, end: slot.end };
+      } else {
+        slots.splice(index, 1);
+      }
+      placed = true;
+      break;
+    }
+    if (!placed) {
+      unscheduled.push(task.id);
+    }
+  }
+
+  return { blocks, unscheduled };
+}
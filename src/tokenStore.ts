@@ -0,0 +1,186 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+const ENCRYPTED_FORMAT = "google-calendar-todo-mcp/encrypted-token";
+const ENCRYPTED_VERSION = 1;
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const FILE_MODE = 0o600;
+
+export interface TokenStore {
+  readonly kind: string;
+  read(tokenPath: string): Promise<string | null>;
+  write(tokenPath: string, content: string): Promise<void>;
+  remove(tokenPath: string): Promise<boolean>;
+}
+
+interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return Boolean(value) && typeof value === "object" && (value as { format?: unknown }).format === ENCRYPTED_FORMAT;
+}
+
+function looksEncrypted(content: string): boolean {
+  try {
+    return isEncryptedEnvelope(JSON.parse(content));
+  } catch {
+    return false;
+  }
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writePrivateFile(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  await fs.writeFile(filePath, content, { mode: FILE_MODE });
+  // writeFile only applies the mode when it creates the file, so tighten existing files too.
+  await fs.chmod(filePath, FILE_MODE);
+}
+
+async function removeFileIfExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export class PlainFileTokenStore implements TokenStore {
+  readonly kind = "plain";
+
+  async read(tokenPath: string): Promise<string | null> {
+    const content = await readFileIfExists(tokenPath);
+    if (content !== null && looksEncrypted(content)) {
+      throw new Error(
+        `Token cache at ${tokenPath} is encrypted. Set GOOGLE_CALENDAR_MCP_TOKEN_PASSPHRASE or GOOGLE_CALENDAR_MCP_TOKEN_KEY_FILE.`
+      );
+    }
+    return content;
+  }
+
+  async write(tokenPath: string, content: string): Promise<void> {
+    await writePrivateFile(tokenPath, content);
+  }
+
+  async remove(tokenPath: string): Promise<boolean> {
+    return removeFileIfExists(tokenPath);
+  }
+}
+
+export class EncryptedFileTokenStore implements TokenStore {
+  readonly kind = "encrypted";
+
+  constructor(private readonly secret: Buffer) {
+    if (secret.length === 0) {
+      throw new Error("Token encryption secret must not be empty");
+    }
+  }
+
+  async read(tokenPath: string): Promise<string | null> {
+    const content = await readFileIfExists(tokenPath);
+    if (content === null) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return content;
+    }
+
+    if (!isEncryptedEnvelope(parsed)) {
+      // Plaintext cache from before encryption was enabled: migrate it in place.
+      await this.write(tokenPath, content);
+      return content;
+    }
+
+    return this.decrypt(parsed, tokenPath);
+  }
+
+  async write(tokenPath: string, content: string): Promise<void> {
+    await writePrivateFile(tokenPath, JSON.stringify(this.encrypt(content), null, 2));
+  }
+
+  async remove(tokenPath: string): Promise<boolean> {
+    return removeFileIfExists(tokenPath);
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return scryptSync(this.secret, salt, KEY_LENGTH);
+  }
+
+  private encrypt(plaintext: string): EncryptedEnvelope {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, this.deriveKey(salt), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+    return {
+      format: ENCRYPTED_FORMAT,
+      version: ENCRYPTED_VERSION,
+      kdf: "scrypt",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      ciphertext: ciphertext.toString("base64")
+    };
+  }
+
+  private decrypt(envelope: EncryptedEnvelope, tokenPath: string): string {
+    if (envelope.version !== ENCRYPTED_VERSION) {
+      throw new Error(`Unsupported encrypted token version ${envelope.version} in ${tokenPath}`);
+    }
+    try {
+      const decipher = createDecipheriv(
+        CIPHER,
+        this.deriveKey(Buffer.from(envelope.salt, "base64")),
+        Buffer.from(envelope.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+      return Buffer.concat([
+        decipher.update(Buffer.from(envelope.ciphertext, "base64")),
+        decipher.final()
+      ]).toString("utf-8");
+    } catch {
+      throw new Error(`Could not decrypt ${tokenPath}. Check the token passphrase or key file.`);
+    }
+  }
+}
+
+export async function createTokenStore(): Promise<TokenStore> {
+  const passphrase = process.env.GOOGLE_CALENDAR_MCP_TOKEN_PASSPHRASE;
+  if (passphrase) {
+    return new EncryptedFileTokenStore(Buffer.from(passphrase, "utf-8"));
+  }
+
+  const keyFile = process.env.GOOGLE_CALENDAR_MCP_TOKEN_KEY_FILE;
+  if (keyFile) {
+    return new EncryptedFileTokenStore(await fs.readFile(keyFile));
+  }
+
+  return new PlainFileTokenStore();
+}
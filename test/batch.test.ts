@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { runBatch } from "../src/batch.js";
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("runBatch", () => {
+  it("runs every step and keeps going after a failure when not atomic", async () => {
+    const outcomes = await runBatch(3, { concurrency: 1, atomic: false }, async (index) => {
+      if (index === 1) {
+        throw new Error("boom");
+      }
+      return { result: index };
+    });
+    assert.deepEqual(
+      outcomes.map((outcome) => [outcome.status, outcome.result ?? outcome.error]),
+      [
+        ["succeeded", 0],
+        ["failed", "boom"],
+        ["succeeded", 2]
+      ]
+    );
+  });
+
+  it("stops after a failure and rolls back in reverse order when atomic", async () => {
+    const undone: number[] = [];
+    const outcomes = await runBatch(5, { concurrency: 1, atomic: true }, async (index) => {
+      if (index === 3) {
+        throw new Error("boom");
+      }
+      return {
+        result: index,
+        // Step 1 cannot be undone; step 2's undo fails.
+        undo:
+          index === 1
+            ? undefined
+            : async () => {
+                if (index === 2) {
+                  throw new Error("gone");
+                }
+                undone.push(index);
+              }
+      };
+    });
+    assert.deepEqual(
+      outcomes.map((outcome) => outcome.status),
+      ["rolledBack", "rollbackFailed", "rollbackFailed", "failed", "skipped"]
+    );
+    assert.equal(outcomes[1].rollbackError, "Operation cannot be undone");
+    assert.equal(outcomes[2].rollbackError, "gone");
+    assert.deepEqual(undone, [0]);
+  });
+
+  it("treats a step that was not run as a failure", async () => {
+    let undone = false;
+    const outcomes = await runBatch(2, { concurrency: 1, atomic: true }, async (index) =>
+      index === 0
+        ? {
+            result: "created",
+            undo: async () => {
+              undone = true;
+            }
+          }
+        : { result: "confirmationRequired", notRun: "needs confirmation" }
+    );
+    assert.deepEqual(
+      outcomes.map((outcome) => [outcome.status, outcome.result, outcome.error]),
+      [
+        ["rolledBack", "created", undefined],
+        ["failed", "confirmationRequired", "needs confirmation"]
+      ]
+    );
+    assert.equal(undone, true);
+  });
+
+  it("keeps at most concurrency steps in flight and starts them in order", async () => {
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+    await runBatch(6, { concurrency: 2, atomic: false }, async (index) => {
+      started.push(index);
+      running += 1;
+      peak = Math.max(peak, running);
+      await tick();
+      await tick();
+      running -= 1;
+      return { result: index };
+    });
+    assert.equal(peak, 2);
+    assert.deepEqual(started, [0, 1, 2, 3, 4, 5]);
+  });
+});
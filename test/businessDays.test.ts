@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DateTime } from "luxon";
+
+import { addBusinessDays, createBusinessCalendar, parseIcsHolidays, parseWeekendDays } from "../src/businessDays.js";
+
+// Friday 2026-10-23.
+const friday = DateTime.fromISO("2026-10-23", { zone: "Asia/Tokyo" });
+
+describe("addBusinessDays", () => {
+  const calendar = createBusinessCalendar(["2026-10-26"], new Set([6, 7]));
+
+  it("skips weekends and holidays in both directions", () => {
+    assert.equal(addBusinessDays(friday, 1, calendar).toISODate(), "2026-10-27");
+    assert.equal(addBusinessDays(friday.plus({ days: 4 }), -1, calendar).toISODate(), "2026-10-23");
+  });
+
+  it("leaves the day unchanged for zero, even on a weekend", () => {
+    assert.equal(addBusinessDays(friday.plus({ days: 1 }), 0, calendar).toISODate(), "2026-10-24");
+  });
+
+  it("refuses a weekend that covers the whole week", () => {
+    assert.throws(() => addBusinessDays(friday, 1, createBusinessCalendar([], new Set([1, 2, 3, 4, 5, 6, 7]))));
+  });
+});
+
+describe("parseWeekendDays", () => {
+  it("accepts weekday names, abbreviations and ISO numbers", () => {
+    assert.deepEqual([...parseWeekendDays("fri, Saturday")], [5, 6]);
+    assert.deepEqual([...parseWeekendDays("7")], [7]);
+  });
+
+  it("rejects unknown days", () => {
+    assert.throws(() => parseWeekendDays("sa"), /Invalid weekend day "sa"/);
+    assert.throws(() => parseWeekendDays("8"), /Invalid weekend day/);
+  });
+});
+
+describe("parseIcsHolidays", () => {
+  it("expands multi-day events, unfolds lines and skips cancelled events", () => {
+    const content = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20261103",
+      "SUMMARY:Culture",
+      " Day",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20261229",
+      "DTEND;VALUE=DATE:20270101",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20261123",
+      "STATUS:CANCELLED",
+      "END:VEVENT",
+      "END:VCALENDAR"
+    ].join("\r\n");
+    assert.deepEqual(parseIcsHolidays(content), ["2026-11-03", "2026-12-29", "2026-12-30", "2026-12-31"]);
+  });
+});
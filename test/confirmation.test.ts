@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+
+import { ConfirmationTokens } from "../src/confirmation.js";
+
+const args = { calendarId: "primary", eventId: "abc", sendUpdates: "all" };
+
+describe("ConfirmationTokens", () => {
+  it("accepts a token once", () => {
+    const tokens = new ConfirmationTokens();
+    const token = tokens.issue("delete-event", args);
+    assert.equal(tokens.consume(token, "delete-event", args), true);
+    assert.equal(tokens.consume(token, "delete-event", args), false);
+  });
+
+  it("binds a token to the tool and its arguments", () => {
+    const tokens = new ConfirmationTokens();
+    const token = tokens.issue("delete-event", args);
+    assert.equal(tokens.consume(token, "delete-task", args), false);
+    assert.equal(tokens.consume(token, "delete-event", { ...args, eventId: "other" }), false);
+    assert.equal(tokens.consume(token, "delete-event", { ...args, sendUpdates: undefined }), false);
+    // A rejected attempt does not use the token up.
+    assert.equal(tokens.consume(token, "delete-event", args), true);
+  });
+
+  it("ignores key order, dryRun and the token itself", () => {
+    const tokens = new ConfirmationTokens();
+    const token = tokens.issue("delete-event", { ...args, dryRun: true });
+    const retried = { sendUpdates: "all", eventId: "abc", calendarId: "primary", confirmToken: token };
+    assert.equal(tokens.consume(token, "delete-event", retried), true);
+  });
+
+  it("expires after ten minutes", () => {
+    const now = Date.now();
+    const clock = mock.method(Date, "now", () => now);
+    try {
+      const tokens = new ConfirmationTokens();
+      const fresh = tokens.issue("delete-event", args);
+      const stale = tokens.issue("delete-event", args);
+      clock.mock.mockImplementation(() => now + 10 * 60 * 1000 - 1);
+      assert.equal(tokens.consume(fresh, "delete-event", args), true);
+      clock.mock.mockImplementation(() => now + 10 * 60 * 1000);
+      assert.equal(tokens.consume(stale, "delete-event", args), false);
+    } finally {
+      clock.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { authorize, getTokenPath } from "../src/googleClient.js";
+
+interface TokenRequest {
+  code: string | null;
+  codeVerifier: string | null;
+}
+
+/** A local stand-in for Google's token endpoint that records the exchanges it receives. */
+function startTokenEndpoint(respond: () => { status: number; body: unknown }) {
+  const requests: TokenRequest[] = [];
+  const server: Server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => {
+      body += chunk;
+    });
+    request.on("end", () => {
+      const form = new URLSearchParams(body);
+      requests.push({ code: form.get("code"), codeVerifier: form.get("code_verifier") });
+      const { status, body: payload } = respond();
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(payload));
+    });
+  });
+  const ready = new Promise<string>((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/token`));
+  });
+  return { ready, requests, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+function redirectFor(authUrl: string, overrides: Record<string, string> = {}): string {
+  const state = new URL(authUrl).searchParams.get("state") ?? "";
+  return `http://localhost/?${new URLSearchParams({ code: "auth-code", state, ...overrides })}`;
+}
+
+describe("headless authorization", () => {
+  let directory: string;
+  const environment = { ...process.env };
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "gctm-auth-"));
+    const credentials = path.join(directory, "credentials.json");
+    await fs.writeFile(
+      credentials,
+      JSON.stringify({ installed: { client_id: "client", client_secret: "secret", redirect_uris: ["http://localhost"] } })
+    );
+    process.env.GOOGLE_OAUTH_CREDENTIALS = credentials;
+    process.env.GOOGLE_CALENDAR_MCP_TOKEN_PATH = path.join(directory, "token.json");
+    delete process.env.GOOGLE_SERVICE_ACCOUNT_KEY_FILE;
+    delete process.env.GOOGLE_CALENDAR_MCP_TOKEN_PASSPHRASE;
+    delete process.env.GOOGLE_CALENDAR_MCP_TOKEN_KEY_FILE;
+  });
+
+  after(async () => {
+    process.env = environment;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("exchanges the code with the PKCE verifier and caches the tokens", async () => {
+    const endpoint = startTokenEndpoint(() => ({
+      status: 200,
+      body: { access_token: "access", refresh_token: "refresh", expires_in: 3600, token_type: "Bearer" }
+    }));
+    const tokenUrl = await endpoint.ready;
+    let challenge: string | null = null;
+    try {
+      const client = await authorize("pkce", {
+        headless: {
+          tokenUrl,
+          promptForCode: async (authUrl) => {
+            const params = new URL(authUrl).searchParams;
+            assert.equal(params.get("code_challenge_method"), "S256");
+            challenge = params.get("code_challenge");
+            return redirectFor(authUrl);
+          }
+        }
+      });
+
+      assert.equal(endpoint.requests.length, 1);
+      const [exchange] = endpoint.requests;
+      assert.equal(exchange.code, "auth-code");
+      assert.ok(exchange.codeVerifier);
+      assert.equal(createHash("sha256").update(exchange.codeVerifier).digest("base64url"), challenge);
+      assert.equal(client.credentials.refresh_token, "refresh");
+      const stored = JSON.parse(await fs.readFile(getTokenPath("pkce"), "utf-8"));
+      assert.equal(stored.refresh_token, "refresh");
+    } finally {
+      await endpoint.close();
+    }
+  });
+
+  it("runs the flow again with force even when a token is cached", async () => {
+    const endpoint = startTokenEndpoint(() => ({
+      status: 200,
+      body: { access_token: "access-2", refresh_token: "refresh-2", expires_in: 3600, token_type: "Bearer" }
+    }));
+    const tokenUrl = await endpoint.ready;
+    const headless = { tokenUrl, promptForCode: async (authUrl: string) => redirectFor(authUrl) };
+    try {
+      const cached = await authorize("pkce", { headless });
+      assert.equal(cached.credentials.refresh_token, "refresh");
+      assert.equal(endpoint.requests.length, 0);
+
+      const renewed = await authorize("pkce", { headless, force: true });
+      assert.equal(endpoint.requests.length, 1);
+      assert.equal(renewed.credentials.refresh_token, "refresh-2");
+    } finally {
+      await endpoint.close();
+    }
+  });
+
+  it("rejects a redirect from another authorization request without calling the token endpoint", async () => {
+    const endpoint = startTokenEndpoint(() => ({ status: 200, body: { access_token: "access" } }));
+    const tokenUrl = await endpoint.ready;
+    try {
+      await assert.rejects(
+        authorize("state", {
+          headless: { tokenUrl, promptForCode: async (authUrl) => redirectFor(authUrl, { state: "other" }) }
+        }),
+        /state mismatch/
+      );
+      assert.equal(endpoint.requests.length, 0);
+    } finally {
+      await endpoint.close();
+    }
+  });
+
+  it("surfaces an error response from the token endpoint", async () => {
+    const endpoint = startTokenEndpoint(() => ({
+      status: 400,
+      body: { error: "invalid_grant", error_description: "Bad Request" }
+    }));
+    const tokenUrl = await endpoint.ready;
+    try {
+      await assert.rejects(
+        authorize("rejected", { headless: { tokenUrl, promptForCode: async (authUrl) => redirectFor(authUrl) } }),
+        /invalid_grant/
+      );
+      assert.equal(endpoint.requests.length, 1);
+      await assert.rejects(fs.access(getTokenPath("rejected")));
+    } finally {
+      await endpoint.close();
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { OAuth2Client } from "google-auth-library";
+
+import { GoogleCalendarTodoMcpServer } from "../src/server.js";
+
+/** A Google API call the server made, with the path relative to the API root (e.g. "calendars/primary/events"). */
+export interface StubRequest {
+  method: string;
+  path: string;
+  params: Record<string, unknown>;
+  body: unknown;
+}
+
+/** Answers a request with its response body, or throws a GoogleApiError. */
+export type StubRoute = (request: StubRequest) => unknown;
+
+/** An error response as googleapis reports it. */
+export class GoogleApiError extends Error {
+  readonly response: { status: number };
+
+  constructor(status: number, message = `HTTP ${status}`) {
+    super(message);
+    this.response = { status };
+  }
+}
+
+function toStubRequest(options: { url: string; method?: string; params?: Record<string, unknown>; data?: unknown }) {
+  const url = new URL(options.url);
+  const apiPath = decodeURIComponent(url.pathname).replace(/^\/(calendar\/v3|tasks\/v1)\//, "");
+  return { method: options.method ?? "GET", path: apiPath, params: options.params ?? {}, body: options.data };
+}
+
+/**
+ * Starts the server against an in-process stand-in for the Google APIs and connects an MCP client to it. The
+ * journal and sync cache go to a temporary directory.
+ */
+export async function connectStubServer(route: StubRoute) {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "gctm-server-"));
+  const environment = { ...process.env };
+  process.env.GOOGLE_CALENDAR_MCP_JOURNAL_PATH = path.join(directory, "journal.jsonl");
+  process.env.GOOGLE_CALENDAR_MCP_CACHE_DIR = directory;
+  delete process.env.GOOGLE_CALENDAR_MCP_CONFIRM;
+
+  const requests: StubRequest[] = [];
+  const authClient = {
+    request: async (options: Parameters<typeof toStubRequest>[0]) => {
+      const request = toStubRequest(options);
+      requests.push(request);
+      return { status: 200, data: route(request) };
+    }
+  } as unknown as OAuth2Client;
+
+  const server = new GoogleCalendarTodoMcpServer("test");
+  await server.initialize(new Map([["default", authClient]]));
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return {
+    requests,
+    /** Calls a tool and returns its parsed JSON output; tool errors are thrown. */
+    async call(name: string, args: Record<string, unknown>): Promise<any> {
+      const result = await client.callTool({ name, arguments: args });
+      const text = (result.content as Array<{ text: string }>)[0].text;
+      if (result.isError) {
+        throw new Error(text);
+      }
+      return JSON.parse(text);
+    },
+    async close() {
+      await client.close();
+      process.env = environment;
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  };
+}
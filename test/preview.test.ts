@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { diffReplacement, diffRequestBody } from "../src/preview.js";
+
+const event = {
+  summary: "Standup",
+  location: "Room 1",
+  start: { dateTime: "2026-10-21T09:00:00+09:00", timeZone: "Asia/Tokyo" },
+  attendees: [{ email: "a@example.com" }]
+};
+
+describe("diffRequestBody", () => {
+  it("compares only the fields in the body", () => {
+    assert.deepEqual(diffRequestBody(event, { summary: "Daily standup", location: "Room 1" }), [
+      { field: "summary", before: "Standup", after: "Daily standup" }
+    ]);
+  });
+
+  it("compares nested objects field by field and arrays as a whole", () => {
+    const body = {
+      start: { dateTime: "2026-10-21T10:00:00+09:00" },
+      attendees: [{ email: "a@example.com" }, { email: "b@example.com" }]
+    };
+    assert.deepEqual(diffRequestBody(event, body), [
+      { field: "start.dateTime", before: "2026-10-21T09:00:00+09:00", after: "2026-10-21T10:00:00+09:00" },
+      { field: "attendees", before: event.attendees, after: body.attendees }
+    ]);
+  });
+
+  it("reports cleared fields and new resources", () => {
+    assert.deepEqual(diffRequestBody(event, { location: null }), [
+      { field: "location", before: "Room 1", after: null }
+    ]);
+    assert.deepEqual(diffRequestBody(null, { title: "New task" }), [
+      { field: "title", before: null, after: "New task" }
+    ]);
+  });
+});
+
+describe("diffReplacement", () => {
+  it("reports fields missing from the body as removed, also in nested objects", () => {
+    const body = { summary: "Standup", start: { dateTime: "2026-10-21T09:00:00+09:00" }, attendees: event.attendees };
+    assert.deepEqual(diffReplacement(event, body), [
+      { field: "location", before: "Room 1", after: null },
+      { field: "start.timeZone", before: "Asia/Tokyo", after: null }
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { DateTime } from "luxon";
+
+import { compileRepeat, splitRecurrence, toRecurrenceStart, truncateRecurrence } from "../src/recurrence.js";
+
+describe("toRecurrenceStart", () => {
+  const hostZone = process.env.TZ;
+
+  // The event zone deliberately differs from the host zone.
+  before(() => {
+    process.env.TZ = "UTC";
+  });
+
+  after(() => {
+    if (hostZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = hostZone;
+    }
+  });
+
+  it("reads a dateTime without an offset as local time in the event time zone", () => {
+    const start = toRecurrenceStart({ dateTime: "2026-10-22T14:30:00", timeZone: "Asia/Tokyo" });
+    assert.equal(start?.value.toISO(), "2026-10-22T14:30:00.000+09:00");
+    assert.equal(start?.value.zoneName, "Asia/Tokyo");
+  });
+
+  it("keeps the instant of a dateTime with an offset", () => {
+    const start = toRecurrenceStart({ dateTime: "2026-10-22T05:30:00Z", timeZone: "Asia/Tokyo" });
+    assert.equal(start?.value.toISO(), "2026-10-22T14:30:00.000+09:00");
+  });
+
+  it("compiles exceptions and UNTIL against the real occurrence time", () => {
+    const start = toRecurrenceStart({ dateTime: "2026-10-22T14:30:00", timeZone: "Asia/Tokyo" });
+    assert.ok(start);
+    const lines = compileRepeat({ frequency: "weekly", until: "2026-11-26", exceptions: ["2026-10-29"] }, start);
+    assert.deepEqual(lines, [
+      "RRULE:FREQ=WEEKLY;UNTIL=20261126T145959Z",
+      "EXDATE;TZID=Asia/Tokyo:20261029T143000"
+    ]);
+  });
+});
+
+describe("truncateRecurrence", () => {
+  it("ends a COUNT rule that cannot be expanded just before the pivot", () => {
+    const start = { value: DateTime.fromISO("2026-01-30T09:00:00", { zone: "Asia/Tokyo" }), allDay: false };
+    const lines = ["RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;COUNT=12", "EXDATE;TZID=Asia/Tokyo:20260227T090000"];
+    const pivot = DateTime.fromISO("2026-05-29T09:00:00", { zone: "Asia/Tokyo" });
+
+    assert.equal(splitRecurrence(lines, start, pivot), null);
+    assert.deepEqual(truncateRecurrence(lines, start, pivot), [
+      "RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;UNTIL=20260528T235959Z",
+      "EXDATE;TZID=Asia/Tokyo:20260227T090000"
+    ]);
+  });
+});
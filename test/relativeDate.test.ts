@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { DateTime } from "luxon";
+
+import { createBusinessCalendar } from "../src/businessDays.js";
+import { resolveRelativeDate } from "../src/relativeDate.js";
+
+// Wednesday 2026-10-21 10:00 in Tokyo.
+const timeZone = "Asia/Tokyo";
+const now = DateTime.fromISO("2026-10-21T10:00:00", { zone: timeZone });
+
+function resolve(value: string, preferDateOnly?: boolean): string | undefined {
+  return resolveRelativeDate(value, { timeZone, now, preferDateOnly });
+}
+
+function resolveBusiness(value: string, holidays: string[] = [], weekend = [6, 7]): string | undefined {
+  const businessCalendar = createBusinessCalendar(holidays, new Set(weekend));
+  return resolveRelativeDate(value, { timeZone, now, businessCalendar });
+}
+
+describe("resolveRelativeDate", () => {
+  it("resolves a weekday with a time of day", () => {
+    assert.equal(resolve("next monday 15:00"), "2026-10-26T15:00:00.000+09:00");
+  });
+
+  it("resolves the end of the week to its last day", () => {
+    assert.equal(resolve("end of week"), "2026-10-25");
+  });
+
+  it("adds an ISO duration to the current time", () => {
+    assert.equal(resolve("now+PT90M"), "2026-10-21T11:30:00.000+09:00");
+  });
+
+  it("counts weeks from today", () => {
+    assert.equal(resolve("in 2 weeks"), "2026-11-04");
+    assert.equal(resolve("in 2 weeks", false), "2026-11-04T00:00:00.000+09:00");
+  });
+
+  it("rejects unrecognized expressions", () => {
+    assert.throws(() => resolve("someday soon"), McpError);
+    assert.throws(() => resolve("next monday 25:00"), /Invalid date/);
+  });
+});
+
+describe("resolveRelativeDate with business days", () => {
+  it("skips the weekend", () => {
+    assert.equal(resolveBusiness("in 3 business days"), "2026-10-26");
+    assert.equal(resolveBusiness("today+3bd"), "2026-10-26");
+  });
+
+  it("skips holidays", () => {
+    assert.equal(resolveBusiness("in 3 business days", ["2026-10-23"]), "2026-10-27");
+    assert.equal(resolveBusiness("next business day", ["2026-10-22"]), "2026-10-23");
+  });
+
+  it("counts backwards", () => {
+    assert.equal(resolveBusiness("3 business days ago"), "2026-10-16");
+    assert.equal(resolveBusiness("today-3bd", ["2026-10-16"]), "2026-10-15");
+    assert.equal(resolveBusiness("previous working day"), "2026-10-20");
+  });
+
+  it("uses a custom weekend", () => {
+    // Friday and Saturday off.
+    assert.equal(resolveBusiness("in 2 business days", [], [5, 6]), "2026-10-25");
+  });
+});
@@ -0,0 +1,203 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { connectStubServer, GoogleApiError, StubRequest } from "./googleStub.js";
+
+describe("update-event-series-from", () => {
+  const master = {
+    id: "master",
+    summary: "Review",
+    start: { dateTime: "2026-01-30T09:00:00+09:00", timeZone: "Asia/Tokyo" },
+    end: { dateTime: "2026-01-30T10:00:00+09:00", timeZone: "Asia/Tokyo" },
+    // The last Friday of the month: a COUNT rule the server cannot expand.
+    recurrence: ["RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;COUNT=12"]
+  };
+  const instance = {
+    id: "master_20260529T000000Z",
+    recurringEventId: "master",
+    originalStartTime: { dateTime: "2026-05-29T09:00:00+09:00", timeZone: "Asia/Tokyo" },
+    start: { dateTime: "2026-05-29T09:00:00+09:00", timeZone: "Asia/Tokyo" }
+  };
+  const route = (request: StubRequest) => {
+    if (request.method === "GET" && request.path === `calendars/primary/events/${instance.id}`) {
+      return instance;
+    }
+    if (request.method === "GET" && request.path === "calendars/primary/events/master") {
+      return master;
+    }
+    if (request.method === "PATCH" && request.path === "calendars/primary/events/master") {
+      return { ...master, ...(request.body as object) };
+    }
+    if (request.method === "POST" && request.path === "calendars/primary/events") {
+      return { ...(request.body as object), id: "new-series" };
+    }
+    throw new GoogleApiError(404);
+  };
+
+  it("splits a series with a COUNT rule it cannot expand when repeat gives the new rule", async () => {
+    const server = await connectStubServer(route);
+    try {
+      const result = await server.call("update-event-series-from", {
+        instanceId: instance.id,
+        summary: "Weekly review",
+        repeat: { frequency: "weekly", count: 4 }
+      });
+
+      const [truncate, insert] = server.requests.filter((request) => request.method !== "GET");
+      assert.deepEqual(truncate.body, {
+        recurrence: ["RRULE:FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;UNTIL=20260528T235959Z"]
+      });
+      assert.deepEqual((insert.body as { recurrence: string[] }).recurrence, ["RRULE:FREQ=WEEKLY;COUNT=4"]);
+      assert.equal(result.newSeries.id, "new-series");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("asks for a new rule when the remaining COUNT would have to be computed", async () => {
+    const server = await connectStubServer(route);
+    try {
+      await assert.rejects(
+        server.call("update-event-series-from", { instanceId: instance.id, summary: "Weekly review" }),
+        /pass recurrence or repeat/
+      );
+      assert.equal(server.requests.filter((request) => request.method !== "GET").length, 0);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("list-tasks", () => {
+  const pages: Record<string, { items: object[]; nextPageToken?: string }> = {
+    first: {
+      items: [
+        { id: "parent", title: "Trip", position: "00000000000000000001" },
+        { id: "other", title: "Groceries", position: "00000000000000000002" }
+      ],
+      nextPageToken: "second"
+    },
+    second: { items: [{ id: "child", title: "Book hotel", parent: "parent", position: "00000000000000000001" }] }
+  };
+  const route = (request: StubRequest) => {
+    if (request.path === "lists/@default/tasks") {
+      return pages[(request.params.pageToken as string | undefined) ?? "first"];
+    }
+    throw new GoogleApiError(404);
+  };
+
+  it("builds the nested tree from every page", async () => {
+    const server = await connectStubServer(route);
+    try {
+      const result = await server.call("list-tasks", { nested: true, useCache: false, maxResults: 2 });
+      assert.deepEqual(
+        result.tasks.map((task: { id: string; subtasks: Array<{ id: string }> }) => [
+          task.id,
+          task.subtasks.map((subtask) => subtask.id)
+        ]),
+        [
+          ["parent", ["child"]],
+          ["other", []]
+        ]
+      );
+      assert.equal(result.nextPageToken, null);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("returns a single page with its token when not nested", async () => {
+    const server = await connectStubServer(route);
+    try {
+      const result = await server.call("list-tasks", { useCache: false });
+      assert.equal(result.tasks.length, 2);
+      assert.equal(result.nextPageToken, "second");
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("batch", () => {
+  const route = (request: StubRequest) => {
+    if (request.method === "POST" && request.path === "lists/@default/tasks") {
+      return { ...(request.body as object), id: "created" };
+    }
+    if (request.path.startsWith("lists/@default/tasks/")) {
+      return request.method === "DELETE" ? "" : { id: request.path.split("/").pop(), title: "Existing" };
+    }
+    throw new GoogleApiError(404);
+  };
+
+  it("counts an operation that was not run as failed and rolls back the others", async () => {
+    const server = await connectStubServer(route);
+    try {
+      const result = await server.call("batch", {
+        atomic: true,
+        concurrency: 1,
+        operations: [
+          { tool: "create-task", arguments: { title: "Pack" } },
+          { tool: "delete-task", arguments: { taskId: "existing", dryRun: true } }
+        ]
+      });
+
+      assert.deepEqual(result.summary, { succeeded: 0, failed: 1, skipped: 0, rolledBack: 1, rollbackFailed: 0 });
+      assert.equal(result.results[1].status, "failed");
+      assert.equal(result.results[1].result.dryRun, true);
+      const deleted = server.requests.filter((request) => request.method === "DELETE").map((request) => request.path);
+      assert.deepEqual(deleted, ["lists/@default/tasks/created"]);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("undo-change", () => {
+  /** A task list that supports get, list, patch and move. */
+  function createTaskStore() {
+    const tasks = new Map<string, { id: string; title: string; position: string; parent?: string; etag: string }>([
+      ["a", { id: "a", title: "A", position: "00000000000000000001", etag: "1" }],
+      ["b", { id: "b", title: "B", position: "00000000000000000002", etag: "1" }],
+      ["c", { id: "c", title: "C", position: "00000000000000000003", etag: "1" }]
+    ]);
+    let version = 1;
+    const route = (request: StubRequest) => {
+      if (request.method === "GET" && request.path === "lists/@default/tasks") {
+        return { items: [...tasks.values()] };
+      }
+      const match = request.path.match(/^lists\/@default\/tasks\/([^/]+)(\/move)?$/);
+      const task = match && tasks.get(match[1]);
+      if (!task) {
+        throw new GoogleApiError(404);
+      }
+      if (request.method === "PATCH") {
+        Object.assign(task, request.body, { etag: String((version += 1)) });
+      } else if (match?.[2]) {
+        const { parent, previous } = request.params as { parent?: string; previous?: string };
+        const position = previous ? `${tasks.get(previous)?.position}5` : "00000000000000000000";
+        Object.assign(task, { parent, position, etag: String((version += 1)) });
+      }
+      return { ...task };
+    };
+    return { tasks, route };
+  }
+
+  it("moves a task back to its old parent and position when undoing move-task", async () => {
+    const store = createTaskStore();
+    const server = await connectStubServer(store.route);
+    try {
+      await server.call("move-task", { taskId: "c", parent: "a" });
+      assert.equal(store.tasks.get("c")?.parent, "a");
+
+      const { changes } = await server.call("list-recent-changes", {});
+      const result = await server.call("undo-change", { changeId: changes[0].id });
+
+      const moves = server.requests.filter((request) => request.path.endsWith("/move"));
+      assert.deepEqual(moves[1].params, { previous: "b" });
+      assert.equal(store.tasks.get("c")?.parent, undefined);
+      assert.equal(result.restoredWithSameId, true);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DateTime } from "luxon";
+
+import { parseEstimateMinutes, planTaskBlocks } from "../src/taskScheduling.js";
+
+const timeZone = "Asia/Tokyo";
+const at = (value: string) => DateTime.fromISO(value, { zone: timeZone });
+const options = { timeZone, alignMinutes: 15, bufferMinutes: 10 };
+
+describe("parseEstimateMinutes", () => {
+  it("reads hours, minutes and their combination", () => {
+    assert.equal(parseEstimateMinutes("Draft the report [est:1h30m]"), 90);
+    assert.equal(parseEstimateMinutes("[est: 1.5h]"), 90);
+    assert.equal(parseEstimateMinutes("[EST:45 min]"), 45);
+  });
+
+  it("takes a bare number as minutes", () => {
+    assert.equal(parseEstimateMinutes("[est:20]"), 20);
+  });
+
+  it("ignores notes without a usable tag", () => {
+    assert.equal(parseEstimateMinutes(undefined), undefined);
+    assert.equal(parseEstimateMinutes("about an hour"), undefined);
+    assert.equal(parseEstimateMinutes("[est:soon]"), undefined);
+    assert.equal(parseEstimateMinutes("[est:1h or so]"), undefined);
+    assert.equal(parseEstimateMinutes("[est:0m]"), undefined);
+  });
+});
+
+describe("planTaskBlocks", () => {
+  it("places tasks in due order, undated tasks last", () => {
+    const plan = planTaskBlocks(
+      [{ start: at("2026-10-21T09:00:00"), end: at("2026-10-21T12:00:00") }],
+      [
+        { id: "undated", due: null, durationMinutes: 30 },
+        { id: "later", due: "2026-10-23", durationMinutes: 30 },
+        { id: "sooner", due: "2026-10-22", durationMinutes: 30 }
+      ],
+      options
+    );
+    assert.deepEqual(
+      plan.blocks.map((block) => [block.id, block.start.toFormat("HH:mm"), block.end.toFormat("HH:mm")]),
+      [
+        ["sooner", "09:00", "09:30"],
+        // 09:30 plus the 10 minute buffer, aligned up to the next quarter hour.
+        ["later", "09:45", "10:15"],
+        ["undated", "10:30", "11:00"]
+      ]
+    );
+    assert.deepEqual(plan.unscheduled, []);
+  });
+
+  it("aligns the start of a slot", () => {
+    const plan = planTaskBlocks(
+      [{ start: at("2026-10-21T09:05:00"), end: at("2026-10-21T10:00:00") }],
+      [{ id: "task", due: null, durationMinutes: 30 }],
+      options
+    );
+    assert.equal(plan.blocks[0].start.toFormat("HH:mm"), "09:15");
+  });
+
+  it("moves on to a later slot and leaves tasks that fit nowhere unscheduled", () => {
+    const plan = planTaskBlocks(
+      [
+        { start: at("2026-10-21T09:00:00"), end: at("2026-10-21T09:45:00") },
+        { start: at("2026-10-23T14:00:00"), end: at("2026-10-23T16:00:00") }
+      ],
+      [
+        { id: "short", due: "2026-10-21", durationMinutes: 30 },
+        { id: "long", due: "2026-10-22", durationMinutes: 90 },
+        { id: "huge", due: "2026-10-22", durationMinutes: 180 }
+      ],
+      options
+    );
+    assert.deepEqual(
+      plan.blocks.map((block) => [block.id, block.start.toISO(), block.afterDue]),
+      [
+        ["short", "2026-10-21T09:00:00.000+09:00", false],
+        ["long", "2026-10-23T14:00:00.000+09:00", true]
+      ]
+    );
+    assert.deepEqual(plan.unscheduled, ["huge"]);
+  });
+});